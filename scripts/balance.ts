@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Plays many autopilot games per difficulty and reports how they went:
+//   npm run balance -- --games 200 --mode classic --difficulty EASY,NORMAL
+import { parseArgs } from 'node:util';
+import { FIXED_STEP_MS } from '../src/game/constants';
+import { Autopilot, DEFAULT_AUTOPILOT, type AutopilotOptions } from '../src/game/autopilot';
+import { GameSimulation } from '../src/game/simulation';
+import { summarizeStats } from '../src/game/stats';
+import type { Difficulty, GameMode } from '../src/game/types';
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const MODES: GameMode[] = ['classic', 'endless', 'timeAttack'];
+
+const USAGE = `Usage: npm run balance -- [options]
+  --games <n>          games per difficulty (default 200)
+  --mode <mode>        ${MODES.join(' | ')} (default classic)
+  --difficulty <list>  comma-separated, from ${DIFFICULTIES.join(', ')} (default all)
+  --seed <n>           seed of the first game; the rest count up from it (default 1)
+  --reaction-ms <n>    time between bot decisions (default ${DEFAULT_AUTOPILOT.thinkEverySteps * FIXED_STEP_MS})
+  --max-minutes <n>    game time after which a game is stopped (default 60)`;
+
+class UsageError extends Error {}
+
+function positiveInteger(value: string, option: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${option} must be a positive integer, got "${value}"`);
+  return n;
+}
+
+type GameResult = {
+  won: boolean;
+  wave: number;
+  citiesLeft: number;
+  // Interceptors fired over the ammo the living turrets started each wave with
+  ammoUsed: number;
+  accuracy: number;
+  score: number;
+  timedOut: boolean;
+};
+
+function playGame(seed: number, difficulty: Difficulty, mode: GameMode, maxSteps: number, bot: Autopilot): GameResult {
+  const sim = GameSimulation.create({ seed, difficulty, mode });
+  let capacity = sim.state.turrets.reduce((sum, t) => sum + t.maxAmmo, 0);
+
+  while (!sim.isOver && sim.state.tick < maxSteps) {
+    for (const command of bot.decide(sim.state)) sim.dispatch(command);
+    for (const event of sim.step()) {
+      if (event.type === 'waveStarted') {
+        capacity += sim.state.turrets.reduce((sum, t) => sum + (t.destroyed ? 0 : t.maxAmmo), 0);
+      }
+    }
+  }
+
+  const { state } = sim;
+  const summary = summarizeStats(state.stats);
+  return {
+    won: state.status === 'WON',
+    wave: state.wave,
+    citiesLeft: state.cities.filter(c => !c.destroyed).length,
+    ammoUsed: capacity > 0 ? summary.shots / capacity : 0,
+    accuracy: summary.accuracy,
+    score: state.score,
+    timedOut: !sim.isOver,
+  };
+}
+
+const average = (results: GameResult[], value: (r: GameResult) => number) =>
+  results.reduce((sum, r) => sum + value(r), 0) / results.length;
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      games: { type: 'string', default: '200' },
+      mode: { type: 'string', default: 'classic' },
+      difficulty: { type: 'string', default: DIFFICULTIES.join(',') },
+      seed: { type: 'string', default: '1' },
+      // Time between bot decisions; longer plays more like a person
+      'reaction-ms': { type: 'string', default: String(DEFAULT_AUTOPILOT.thinkEverySteps * FIXED_STEP_MS) },
+      // Games still running after this much game time are stopped and counted as not won
+      'max-minutes': { type: 'string', default: '60' },
+    },
+  });
+
+  const games = positiveInteger(values.games, 'games');
+  const firstSeed = Number(values.seed);
+  if (values.seed.trim() === '' || !Number.isFinite(firstSeed)) throw new UsageError(`--seed must be a number, got "${values.seed}"`);
+  const mode = values.mode as GameMode;
+  const difficulties = values.difficulty.split(',').map(d => d.trim().toUpperCase()) as Difficulty[];
+  const maxSteps = Math.round((positiveInteger(values['max-minutes'], 'max-minutes') * 60_000) / FIXED_STEP_MS);
+  const options: AutopilotOptions = {
+    ...DEFAULT_AUTOPILOT,
+    thinkEverySteps: Math.max(1, Math.round(positiveInteger(values['reaction-ms'], 'reaction-ms') / FIXED_STEP_MS)),
+  };
+
+  if (!MODES.includes(mode)) throw new UsageError(`--mode must be one of ${MODES.join(', ')}`);
+  const unknown = difficulties.filter(d => !DIFFICULTIES.includes(d));
+  if (unknown.length > 0) throw new UsageError(`unknown difficulty: ${unknown.join(', ')}`);
+
+  console.log(
+    `${games} autopilot games per difficulty, mode ${mode}, seeds ${firstSeed}-${firstSeed + games - 1}, `
+      + `reaction ${options.thinkEverySteps * FIXED_STEP_MS}ms\n`,
+  );
+  const rows = difficulties.map(difficulty => {
+    const started = Date.now();
+    const results = Array.from({ length: games }, (_, i) => playGame(firstSeed + i, difficulty, mode, maxSteps, new Autopilot(options)));
+    return {
+      difficulty,
+      'win rate': pct(average(results, r => Number(r.won))),
+      'avg wave': average(results, r => r.wave).toFixed(1),
+      'max wave': Math.max(...results.map(r => r.wave)),
+      'cities left': average(results, r => r.citiesLeft).toFixed(2),
+      'ammo used': pct(average(results, r => r.ammoUsed)),
+      accuracy: pct(average(results, r => r.accuracy)),
+      'avg score': Math.round(average(results, r => r.score)),
+      'timed out': results.filter(r => r.timedOut).length,
+      seconds: ((Date.now() - started) / 1000).toFixed(1),
+    };
+  });
+  console.table(rows);
+}
+
+try {
+  main();
+} catch (err) {
+  // parseArgs reports unknown options and missing values with ERR_PARSE_ARGS_* codes
+  const code = (err as { code?: string }).code;
+  if (!(err instanceof UsageError) && !code?.startsWith('ERR_PARSE_ARGS_')) throw err;
+  console.error(`${(err as Error).message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
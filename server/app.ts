@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import type { ScoreStore } from './scores';
+import { MAX_NAME_LENGTH, type ScoreUpload } from '../src/services/leaderboard';
+import type { Difficulty } from '../src/game/types';
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const MAX_CLIENT_ID_LENGTH = 64;
+
+class ValidationError extends Error {}
+
+function parseDifficulty(value: unknown): Difficulty {
+  if (!DIFFICULTIES.includes(value as Difficulty)) {
+    throw new ValidationError(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  return value as Difficulty;
+}
+
+function parseCount(value: unknown, field: string, min: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new ValidationError(`${field} must be an integer >= ${min}`);
+  }
+  return value;
+}
+
+function parseSubmission(body: unknown): ScoreUpload {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const name = typeof b.name === 'string' ? b.name.trim() : '';
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new ValidationError(`name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  const clientId = b.clientId ?? null;
+  if (clientId !== null && (typeof clientId !== 'string' || clientId.length === 0 || clientId.length > MAX_CLIENT_ID_LENGTH)) {
+    throw new ValidationError(`clientId must be 1-${MAX_CLIENT_ID_LENGTH} characters`);
+  }
+  return {
+    clientId: clientId as string | null,
+    name,
+    difficulty: parseDifficulty(b.difficulty),
+    score: parseCount(b.score, 'score', 0),
+    wave: parseCount(b.wave, 'wave', 1),
+    durationMs: parseCount(b.durationMs, 'durationMs', 0),
+  };
+}
+
+export function createApp(store: ScoreStore) {
+  const app = express();
+  app.use(express.json({ limit: '4kb' }));
+
+  app.post('/api/scores', (req, res) => {
+    const result = store.submit(parseSubmission(req.body));
+    res.status(201).json(result);
+  });
+
+  // GET /api/scores?difficulty=NORMAL&limit=10[&date=YYYY-MM-DD]
+  app.get('/api/scores', (req, res) => {
+    const difficulty = parseDifficulty(req.query.difficulty);
+    const limit = req.query.limit === undefined ? DEFAULT_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    const { date } = req.query;
+    if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+      throw new ValidationError('date must be formatted as YYYY-MM-DD');
+    }
+    res.json(store.top(difficulty, limit, date as string | undefined));
+  });
+
+  // Every error is answered with JSON; stack traces stay in the server log
+  app.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    if (err instanceof ValidationError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const bodyError = err as { type?: string; status?: number };
+    if (bodyError.type === 'entity.parse.failed' || bodyError.type === 'entity.too.large') {
+      const message = bodyError.type === 'entity.too.large' ? 'request body is too large' : 'request body is not valid JSON';
+      res.status(bodyError.status ?? 400).json({ error: message });
+      return;
+    }
+    console.error(err);
+    res.status(500).json({ error: 'internal server error' });
+  });
+
+  return app;
+}
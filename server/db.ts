@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+// Append-only: each entry upgrades the schema by one version. Never edit a
+// migration that has shipped, add a new one instead.
+const MIGRATIONS: string[] = [
+  `CREATE TABLE scores (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    difficulty TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    wave INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );`,
+  `CREATE INDEX idx_scores_difficulty_score ON scores (difficulty, score DESC);
+   CREATE INDEX idx_scores_difficulty_day ON scores (difficulty, substr(created_at, 1, 10), score DESC);`,
+  `ALTER TABLE scores ADD COLUMN client_id TEXT;
+   CREATE UNIQUE INDEX idx_scores_client_id ON scores (client_id);`,
+];
+
+export function migrate(db: Database.Database) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+export function openDatabase(file: string): Database.Database {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+}
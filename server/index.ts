@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import { createApp } from './app';
+import { openDatabase } from './db';
+import { createScoreStore } from './scores';
+
+const port = Number(process.env.LEADERBOARD_PORT ?? 8787);
+const dbFile = process.env.LEADERBOARD_DB ?? 'data/leaderboard.db';
+
+createApp(createScoreStore(openDatabase(dbFile))).listen(port, () => {
+  console.log(`Leaderboard server listening on http://localhost:${port} (db: ${dbFile})`);
+});
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type Database from 'better-sqlite3';
+import type { LeaderboardEntry, ScoreUpload } from '../src/services/leaderboard';
+import type { Difficulty } from '../src/game/types';
+
+type ScoreRow = {
+  id: number;
+  name: string;
+  difficulty: Difficulty;
+  score: number;
+  wave: number;
+  duration_ms: number;
+  created_at: string;
+};
+
+function toEntry(row: ScoreRow, rank: number): LeaderboardEntry {
+  return {
+    id: row.id,
+    rank,
+    name: row.name,
+    difficulty: row.difficulty,
+    score: row.score,
+    wave: row.wave,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at,
+  };
+}
+
+export function createScoreStore(db: Database.Database) {
+  const insert = db.prepare(
+    'INSERT INTO scores (name, difficulty, score, wave, duration_ms, client_id) VALUES (@name, @difficulty, @score, @wave, @durationMs, @clientId)',
+  );
+  const byClientId = db.prepare('SELECT id, difficulty, score FROM scores WHERE client_id = ?');
+  const rankOf = db.prepare('SELECT COUNT(*) + 1 AS rank FROM scores WHERE difficulty = ? AND score > ?');
+  const top = db.prepare(
+    'SELECT * FROM scores WHERE difficulty = ? ORDER BY score DESC, created_at ASC LIMIT ?',
+  );
+  const topOfDay = db.prepare(
+    'SELECT * FROM scores WHERE difficulty = ? AND substr(created_at, 1, 10) = ? ORDER BY score DESC, created_at ASC LIMIT ?',
+  );
+
+  return {
+    // A score whose client id is already stored was uploaded before (the client
+    // retried after a lost response) and is answered without inserting it again
+    submit(upload: ScoreUpload): { id: number; rank: number } {
+      const stored = upload.clientId === null
+        ? undefined
+        : (byClientId.get(upload.clientId) as Pick<ScoreRow, 'id' | 'difficulty' | 'score'> | undefined);
+      const { id, difficulty, score } = stored ?? { ...upload, id: Number(insert.run(upload).lastInsertRowid) };
+      const { rank } = rankOf.get(difficulty, score) as { rank: number };
+      return { id, rank };
+    },
+
+    // `day` is a UTC date (YYYY-MM-DD); omit it for the all-time table
+    top(difficulty: Difficulty, limit: number, day?: string): LeaderboardEntry[] {
+      const rows = (day ? topOfDay.all(difficulty, day, limit) : top.all(difficulty, limit)) as ScoreRow[];
+      return rows.map((row, i) => toEntry(row, i + 1));
+    },
+  };
+}
+
+export type ScoreStore = ReturnType<typeof createScoreStore>;
@@ -3,657 +3,800 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-import { Shield, Target, Trophy, RotateCcw, Info, Globe } from 'lucide-react';
-
-// --- Constants & Types ---
-
-const GAME_WIDTH = 800;
-const GAME_HEIGHT = 600;
-const WIN_SCORE = 5000;
-const POINTS_PER_KILL = 20;
-const AMMO_BONUS = 2;
-const CITY_BONUS = 100;
-
-const TURRET_CONFIGS = [
-  { id: 0, x: 50, ammo: 20, maxAmmo: 20, label: 'L1' },
-  { id: 1, x: 225, ammo: 20, maxAmmo: 20, label: 'L2' },
-  { id: 2, x: 400, ammo: 40, maxAmmo: 40, label: 'C' },
-  { id: 3, x: 575, ammo: 20, maxAmmo: 20, label: 'R2' },
-  { id: 4, x: 750, ammo: 20, maxAmmo: 20, label: 'R1' },
-];
-
-const CITY_POSITIONS = [135, 310, 490, 665];
-
-type Entity = {
-  id: string;
-  x: number;
-  y: number;
-  active: boolean;
-};
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
+import { Shield, Target, Trophy, RotateCcw, Info, Globe, Film, Download, Upload, Gamepad2, Pause, Play, Settings, Home, Volume2, VolumeX, Timer, FileJson, FileSpreadsheet, Zap, Award, Mountain } from 'lucide-react';
+
+import {
+  GAME_WIDTH,
+  GAME_HEIGHT,
+  FIXED_STEP_MS,
+  MAX_FRAME_MS,
+  TIME_ATTACK_MS,
+  WIN_SCORE,
+} from './game/constants';
+import { GameSimulation } from './game/simulation';
+import { randomSeed } from './game/rng';
+import { UPGRADE_COLORS } from './game/render';
+import { PALETTES } from './game/palettes';
+import { loadAccessibilitySettings, saveAccessibilitySettings, type AccessibilitySettings } from './game/accessibility';
+import { TURRET_ARCHETYPES } from './game/turrets';
+import { ROCKET_TYPES } from './game/enemies';
+import { SCORING } from './game/scoring';
+import { Renderer, loadRenderQuality, saveRenderQuality, type RenderQuality } from './game/renderer';
+import { ReplayFormatError, ReplayRecorder, parseReplay, serializeReplay, type Replay } from './game/replay';
+import { formatDecision, type DirectorState } from './game/director';
+import { statsToCsv, statsToJson, summarizeStats, type GameStats } from './game/stats';
+import { AMMO_RANGE, DEFAULT_LAYOUT, labelTurrets, type Layout } from './game/layout';
+import { ACHIEVEMENTS, createAchievementRun, trackAchievements, type AchievementId, type AchievementRun } from './game/achievements';
+import { createSpecials } from './game/supplies';
+import type {
+  Difficulty,
+  GameMode,
+  GameState,
+  SimulationEvent,
+  SimulationState,
+  SpecialWeapon,
+  SupplyKind,
+  TurretArchetype,
+  TurretUpgrade,
+  UpgradeKind,
+} from './game/types';
+import ReplayViewer from './components/ReplayViewer';
+import UpgradeShop, { type UpgradeShopLabels } from './components/UpgradeShop';
+import PerfOverlay, { type PerfStats } from './components/PerfOverlay';
+import DirectorPanel from './components/DirectorPanel';
+import StatsPanel from './components/StatsPanel';
+import AchievementsGallery, { type AchievementsGalleryLabels } from './components/AchievementsGallery';
+import LayoutEditor, { type LayoutEditorLabels } from './components/LayoutEditor';
+import Leaderboard from './components/Leaderboard';
+import ControlSettingsPanel, { type ControlSettingsLabels } from './components/ControlSettingsPanel';
+import AudioSettingsPanel, { type AudioSettingsLabels } from './components/AudioSettingsPanel';
+import GraphicsSettingsPanel, { type GraphicsSettingsLabels } from './components/GraphicsSettingsPanel';
+import AccessibilitySettingsPanel, { type AccessibilitySettingsLabels } from './components/AccessibilitySettingsPanel';
+import SpecialWeaponsBar, { type SpecialWeaponsHud, type SpecialWeaponsLabels } from './components/SpecialWeaponsBar';
+import { SoundEngine, loadAudioSettings, saveAudioSettings, type AudioSettings } from './audio/engine';
+import { clearSave, loadSave, writeSave, type SaveGame } from './services/savegame';
+import { bestScoreKey, loadBestScores, recordBestScore, type BestScores } from './services/bestScores';
+import { loadAchievements, recordAchievementProgress, type AchievementRecords } from './services/achievements';
+import { loadLayout, saveLayout } from './services/layouts';
+import { downloadFile } from './utils/download';
+import {
+  ARROW_KEYS,
+  AUTO_FIRE_KEYS,
+  SPECIAL_KEYS,
+  TURRET_KEYS,
+  batteryForKey,
+  batteryGroup,
+  createCrosshair,
+  loadControlSettings,
+  moveCrosshair,
+  saveControlSettings,
+  specialForKey,
+  type ControlSettings,
+} from './input/controls';
+import { PAD_BATTERY_BUTTONS, PAD_SPECIAL_BUTTONS, moveCrosshairWithStick, rumble, type PadButton } from './input/gamepad';
+import { useGamepad } from './hooks/useGamepad';
+import { useAttractMode } from './hooks/useAttractMode';
+import {
+  LOCALES,
+  LOCALE_CODES,
+  createTranslator,
+  detectLocale,
+  saveLocale,
+  type Locale,
+  type MessageKey,
+  type Translator,
+} from './i18n';
+
+// The footer describes each archetype in the layout once, with the slots it
+// sits in and their magazine sizes
+function describeLoadout({ turrets }: Layout) {
+  const sorted = [...turrets].sort((a, b) => a.x - b.x);
+  const labels = labelTurrets(sorted.map(turret => turret.x));
+  return [...new Set(sorted.map(turret => turret.archetype))].map(archetype => {
+    const slots = sorted.flatMap((turret, i) => (turret.archetype === archetype ? [{ label: labels[i], ammo: turret.ammo }] : []));
+    return { archetype, slots: slots.map(slot => slot.label), ammo: [...new Set(slots.map(slot => slot.ammo))] };
+  });
+}
 
-type Rocket = Entity & {
-  startX: number;
-  startY: number;
-  targetX: number;
-  targetY: number;
-  speed: number;
-  progress: number;
+const ARCHETYPE_TEXT: Record<TurretArchetype, [MessageKey, MessageKey]> = {
+  standard: ['archetypeStandard', 'archetypeStandardHint'],
+  flak: ['archetypeFlak', 'archetypeFlakHint'],
+  heavy: ['archetypeHeavy', 'archetypeHeavyHint'],
+  pointDefense: ['archetypePointDefense', 'archetypePointDefenseHint'],
 };
 
-type Missile = Entity & {
-  startX: number;
-  startY: number;
-  targetX: number;
-  targetY: number;
-  speed: number;
-  progress: number;
+// How often the performance overlay refreshes
+const PERF_SAMPLE_MS = 250;
+
+type DifficultyChoice = Difficulty | 'ADAPTIVE';
+const DIFFICULTY_CHOICES: DifficultyChoice[] = ['EASY', 'NORMAL', 'HARD', 'ADAPTIVE'];
+const GAME_MODE_CHOICES: GameMode[] = ['classic', 'endless', 'timeAttack', 'swarm'];
+
+// Shown under the title on the start screen and in the objective card
+const MODE_GOALS: Record<GameMode, MessageKey> = {
+  classic: 'winTarget',
+  endless: 'endlessGoal',
+  timeAttack: 'timeAttackGoal',
+  swarm: 'swarmHint',
 };
 
-type Explosion = Entity & {
-  radius: number;
-  maxRadius: number;
-  growing: boolean;
+const END_TITLES: Record<GameMode, Record<'WON' | 'LOST', MessageKey>> = {
+  classic: { WON: 'win', LOST: 'loss' },
+  endless: { WON: 'win', LOST: 'endlessOver' },
+  timeAttack: { WON: 'timeUp', LOST: 'timeAttackLost' },
+  swarm: { WON: 'win', LOST: 'loss' },
 };
 
-type Turret = {
-  id: number;
-  x: number;
-  y: number;
-  ammo: number;
-  maxAmmo: number;
-  destroyed: boolean;
+const DIFFICULTY_LABELS: Record<DifficultyChoice, MessageKey> = {
+  EASY: 'easy',
+  NORMAL: 'normal',
+  HARD: 'hard',
+  ADAPTIVE: 'adaptive',
 };
 
-type City = {
-  id: number;
-  x: number;
-  y: number;
-  destroyed: boolean;
+// Name and description of each achievement
+const ACHIEVEMENT_TEXT: Record<AchievementId, [MessageKey, MessageKey]> = {
+  flawlessWave: ['achievementFlawlessWave', 'achievementFlawlessWaveHint'],
+  chainReaction: ['achievementChainReaction', 'achievementChainReactionHint'],
+  hardWin: ['achievementHardWin', 'achievementHardWinHint'],
+  centerOnly: ['achievementCenterOnly', 'achievementCenterOnlyHint'],
+  wave20: ['achievementWave20', 'achievementWave20Hint'],
 };
 
-type GameState = 'START' | 'PLAYING' | 'WON' | 'LOST';
-type Difficulty = 'EASY' | 'NORMAL' | 'HARD';
+// How long each unlock toast stays up; several unlocks are shown one after another
+const ACHIEVEMENT_TOAST_MS = 3500;
+
+// The live region reads out the score each time it passes a multiple of this
+const SCORE_MILESTONE = 1000;
+
+const SUPPLY_NAMES: Record<SupplyKind, MessageKey> = {
+  ammo: 'supplyAmmo',
+  shield: 'supplyShield',
+  emp: 'specialEmp',
+  slowMo: 'specialSlowMo',
+};
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [gameState, setGameState] = useState<GameState>('START');
   const [score, setScore] = useState(0);
-  const [lang, setLang] = useState<'zh' | 'en'>('zh');
+  const [locale, setLocale] = useState<Locale>(detectLocale);
   const [wave, setWave] = useState(1);
+  // Longest chain reaction of the run so far
+  const [bestChain, setBestChain] = useState(0);
   const [difficulty, setDifficulty] = useState<Difficulty>('NORMAL');
+  const [adaptive, setAdaptive] = useState(false);
+  const [mode, setMode] = useState<GameMode>('classic');
+  const [showPerf, setShowPerf] = useState(false);
+  const [perf, setPerf] = useState<PerfStats | null>(null);
+  const [showDirector, setShowDirector] = useState(false);
+  const [director, setDirector] = useState<DirectorState | null>(null);
   const [isWaveTransition, setIsWaveTransition] = useState(false);
+  const [shopOpen, setShopOpen] = useState(false);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [viewingReplay, setViewingReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [controls, setControls] = useState<ControlSettings>(loadControlSettings);
+  const [audio, setAudio] = useState<AudioSettings>(loadAudioSettings);
+  const [quality, setQuality] = useState<RenderQuality>(loadRenderQuality);
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  // Text for screen readers, read out through the live region
+  const [announcement, setAnnouncement] = useState('');
+  const [specialsHud, setSpecialsHud] = useState<SpecialWeaponsHud>(() => ({ specials: createSpecials(), shieldMs: 0, slowMoMs: 0 }));
+  const [savedGame, setSavedGame] = useState<SaveGame | null>(loadSave);
+  const [bestScores, setBestScores] = useState<BestScores>(loadBestScores);
+  const [newBest, setNewBest] = useState(false);
+  const [finalStats, setFinalStats] = useState<GameStats | null>(null);
+  const [achievements, setAchievements] = useState<AchievementRecords>(loadAchievements);
+  const [showAchievements, setShowAchievements] = useState(false);
+  // Editor layout new games are played on; null for the built-in one
+  const [layout, setLayout] = useState<Layout | null>(loadLayout);
+  const [editingLayout, setEditingLayout] = useState(false);
+  // Unlocks waiting for their toast, the one on screen first
+  const [achievementToasts, setAchievementToasts] = useState<AchievementId[]>([]);
+  // Whole seconds left in timed modes, null otherwise
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [showPauseSettings, setShowPauseSettings] = useState(false);
+  const [padNotice, setPadNotice] = useState<string | null>(null);
   
   // Game Objects Refs
-  const scoreRef = useRef(0);
-  const waveRef = useRef(1);
-  const difficultyRef = useRef<Difficulty>('NORMAL');
-  const isWaveTransitionRef = useRef(false);
+  const simRef = useRef<GameSimulation | null>(null);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const achievementRunRef = useRef<AchievementRun | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
   const gameStateRef = useRef<GameState>('START');
-  
-  const rocketsRef = useRef<Rocket[]>([]);
-  const missilesRef = useRef<Missile[]>([]);
-  const explosionsRef = useRef<Explosion[]>([]);
-  const turretsRef = useRef<Turret[]>([]);
-  const citiesRef = useRef<City[]>([]);
   const lastTimeRef = useRef<number>(0);
-  const spawnTimerRef = useRef<number>(0);
-  const rocketsSpawnedInWaveRef = useRef<number>(0);
-  const totalRocketsInWaveRef = useRef<number>(10);
-  const waveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const starsRef = useRef<{x: number, y: number, size: number, opacity: number}[]>([]);
+  const accumulatorRef = useRef<number>(0);
+  const rendererRef = useRef<Renderer | null>(null);
+  const controlsRef = useRef<ControlSettings>(controls);
+  const accessibilityRef = useRef<AccessibilitySettings>(accessibility);
+  const crosshairRef = useRef(createCrosshair());
+  const heldKeysRef = useRef(new Set<string>());
+  // Frame samples collected between two updates of the performance overlay
+  const perfSampleRef = useRef({ since: 0, frames: 0, frameMs: 0, workMs: 0, collisionChecks: 0 });
+  const soundRef = useRef<SoundEngine | null>(null);
+  soundRef.current ??= new SoundEngine(audio);
+  const sound = soundRef.current;
+
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  // The game loop outlives locale changes
+  const tRef = useRef(t);
+  tRef.current = t;
 
-  // Initialize stars once
   useEffect(() => {
-    const stars = [];
-    for (let i = 0; i < 150; i++) {
-      stars.push({
-        x: Math.random() * GAME_WIDTH,
-        y: Math.random() * GAME_HEIGHT,
-        size: Math.random() * 1.5,
-        opacity: Math.random()
-      });
-    }
-    starsRef.current = stars;
-  }, []);
+    document.documentElement.lang = locale;
+  }, [locale]);
 
-  const t = {
-    zh: {
-      title: '新星防御',
-      start: '开始游戏',
-      win: '恭喜！你成功保卫了新星',
-      loss: '防线崩溃，城市陷落',
-      score: '得分',
-      ammo: '弹药',
-      wave: '波次',
-      nextWave: '下一波',
-      restart: '再玩一次',
-      instructions: '点击屏幕发射拦截导弹。预判敌方火箭轨迹，利用爆炸范围摧毁它们。',
-      winTarget: '达到 1000 分获胜',
-      waveComplete: '波次完成！弹药已补充',
-      difficulty: '难度',
-      easy: '简单',
-      normal: '普通',
-      hard: '困难',
-    },
-    en: {
-      title: 'Nova Defense',
-      start: 'Start Game',
-      win: 'Victory! You defended Nova',
-      loss: 'Defense Breached, City Fallen',
-      score: 'Score',
-      ammo: 'Ammo',
-      wave: 'Wave',
-      nextWave: 'Next Wave',
-      restart: 'Play Again',
-      instructions: 'Click anywhere to fire interceptors. Predict rocket paths and use explosions to destroy them.',
-      winTarget: 'Reach 1000 points to win',
-      waveComplete: 'Wave Complete! Ammo Refilled',
-      difficulty: 'Difficulty',
-      easy: 'Easy',
-      normal: 'Normal',
-      hard: 'Hard',
-    }
-  }[lang];
+  // Only an explicit choice is stored, so detection keeps following the browser until then
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+  };
 
-  const initGame = useCallback(() => {
-    // Clear any pending wave transitions
-    if (waveTimeoutRef.current) {
-      clearTimeout(waveTimeoutRef.current);
-      waveTimeoutRef.current = null;
-    }
+  // Same for reduced motion and the system setting
+  const changeAccessibility = (next: AccessibilitySettings) => {
+    setAccessibility(next);
+    saveAccessibilitySettings(next);
+  };
+
+  const announce = (messages: string[]) => {
+    if (messages.length === 0) return;
+    const text = messages.join(' ');
+    // Screen readers skip a message identical to the last one, so a repeat is made to differ
+    setAnnouncement(previous => (previous === text ? `${text}\u00a0` : text));
+  };
+
+  // Shared by new and resumed games
+  const startRun = (sim: GameSimulation, recorder: ReplayRecorder) => {
+    simRef.current = sim;
+    recorderRef.current = recorder;
+    achievementRunRef.current = createAchievementRun(sim.state);
+    // Starting a game is always a user gesture, which browsers require before playing audio
+    sound.unlock();
+    sound.stopDrone();
+    sound.startDrone();
 
-    rocketsRef.current = [];
-    missilesRef.current = [];
-    explosionsRef.current = [];
-    turretsRef.current = TURRET_CONFIGS.map(config => ({
-      ...config,
-      y: GAME_HEIGHT - 30,
-      destroyed: false
-    }));
-    citiesRef.current = CITY_POSITIONS.map((x, i) => ({
-      id: i,
-      x,
-      y: GAME_HEIGHT - 20,
-      destroyed: false
-    }));
-    
-    scoreRef.current = 0;
-    setScore(0);
-    waveRef.current = 1;
-    setWave(1);
-    
     // Set refs first to ensure loop sees correct state immediately
-    isWaveTransitionRef.current = false;
     gameStateRef.current = 'PLAYING';
-    
+    lastTimeRef.current = performance.now();
+    accumulatorRef.current = 0;
+    perfSampleRef.current = { since: lastTimeRef.current, frames: 0, frameMs: 0, workMs: 0, collisionChecks: 0 };
+
     // Then update state to trigger re-renders/effects
+    setScore(sim.state.score);
+    setWave(sim.state.wave);
+    setBestChain(summarizeStats(sim.state.stats).longestChain);
+    rendererRef.current?.clearPopups();
     setGameState('PLAYING');
-    setIsWaveTransition(false);
-    
+    setIsWaveTransition(sim.isWaveTransition);
+    setShopOpen(sim.state.shopOpen);
+    setLastReplay(null);
+    setViewingReplay(null);
+    setReplayError(null);
+    setShowPauseSettings(false);
+    setNewBest(false);
+    setFinalStats(null);
+    setTimeLeft(secondsLeft(sim));
+    if (sim.state.mode === 'swarm') setShowPerf(true);
+    setDirector(sim.state.director && { ...sim.state.director });
+  };
+
+  const newGame = (gameLayout: Layout | null) => {
+    // A new game abandons any saved run
+    clearSave();
+    setSavedGame(null);
+    const sim = GameSimulation.create({ seed: randomSeed(), difficulty, mode, adaptive, layout: gameLayout });
+    startRun(sim, new ReplayRecorder(sim));
+  };
+
+  const initGame = useCallback(() => newGame(layout), [difficulty, mode, adaptive, layout]);
+
+  // Playing from the editor also makes the layout the one new games start on
+  const playLayout = (next: Layout) => {
+    setLayout(next);
+    saveLayout(next);
+    setEditingLayout(false);
+    newGame(next);
+  };
+
+  const clearLayout = () => {
+    setLayout(null);
+    saveLayout(null);
+  };
+
+  const continueGame = () => {
+    const save = loadSave();
+    setSavedGame(save);
+    if (!save) return;
+    const sim = new GameSimulation(save.state);
+    setDifficulty(save.state.difficulty);
+    setAdaptive(save.state.director !== null);
+    setMode(save.state.mode);
+    startRun(sim, new ReplayRecorder(sim, save.inputs, save.gameSpeed));
+  };
+
+  // Snapshots the running game so a reload can pick it up again
+  const saveRun = () => {
+    const sim = simRef.current;
+    const recorder = recorderRef.current;
+    if (!sim || !recorder || sim.isOver) return;
+    writeSave(sim.state, recorder.inputs, recorder.gameSpeed);
+  };
+
+  const pauseGame = () => {
+    if (gameStateRef.current !== 'PLAYING') return;
+    gameStateRef.current = 'PAUSED';
+    setGameState('PAUSED');
+    heldKeysRef.current.clear();
+    sound.stopDrone();
+  };
+
+  const resumeGame = () => {
+    if (gameStateRef.current !== 'PAUSED') return;
+    // Time spent paused must not reach the simulation or the perf overlay as one huge frame
     lastTimeRef.current = performance.now();
-    spawnTimerRef.current = 0;
-    rocketsSpawnedInWaveRef.current = 0;
-    
-    // Difficulty modifiers
-    const baseRockets = difficulty === 'EASY' ? 10 : difficulty === 'NORMAL' ? 15 : 20;
-    totalRocketsInWaveRef.current = baseRockets;
-  }, [difficulty]);
-
-  const startNextWave = () => {
-    // Refill ammo
-    turretsRef.current.forEach(t => {
-      if (!t.destroyed) {
-        // Bonus points for remaining ammo
-        const bonus = t.ammo * AMMO_BONUS;
-        scoreRef.current += bonus;
-        setScore(scoreRef.current);
-        t.ammo = t.maxAmmo;
-      }
+    perfSampleRef.current = { since: lastTimeRef.current, frames: 0, frameMs: 0, workMs: 0, collisionChecks: 0 };
+    gameStateRef.current = 'PLAYING';
+    setGameState('PLAYING');
+    setShowPauseSettings(false);
+    sound.startDrone();
+  };
+
+  const quitToMenu = () => {
+    saveRun();
+    setSavedGame(loadSave());
+    simRef.current = null;
+    recorderRef.current = null;
+    gameStateRef.current = 'START';
+    setGameState('START');
+    setShowPauseSettings(false);
+    sound.stopDrone();
+  };
+
+  const fireMissile = (targetX: number, targetY: number, turrets?: number[]) => {
+    if (gameStateRef.current !== 'PLAYING') return;
+    recorderRef.current?.dispatch({ type: 'fire', x: targetX, y: targetY, ...(turrets && { turrets }) });
+  };
+
+  const fireSpecial = (weapon: SpecialWeapon) => {
+    if (gameStateRef.current !== 'PLAYING') return;
+    recorderRef.current?.dispatch({ type: 'special', weapon });
+  };
+
+  // Shop purchases go through the recorder too so replays reproduce them
+  const buyUpgrade = (upgrade: UpgradeKind, targetId: number) => {
+    if (gameStateRef.current !== 'PLAYING') return;
+    if (recorderRef.current?.dispatch({ type: 'buy', upgrade, targetId })) setScore(simRef.current!.state.score);
+  };
+
+  const continueToNextWave = () => {
+    if (gameStateRef.current !== 'PLAYING') return;
+    if (recorderRef.current?.dispatch({ type: 'continue' })) setShopOpen(false);
+  };
+
+  useEffect(() => {
+    controlsRef.current = controls;
+    saveControlSettings(controls);
+  }, [controls]);
+
+  useEffect(() => {
+    sound.applySettings(audio);
+    saveAudioSettings(audio);
+  }, [audio]);
+
+  useEffect(() => {
+    const renderer = new Renderer(canvasRef.current!, quality);
+    rendererRef.current = renderer;
+    return renderer.observe();
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.setQuality(quality);
+    saveRenderQuality(quality);
+  }, [quality]);
+
+  useEffect(() => {
+    accessibilityRef.current = accessibility;
+    rendererRef.current?.setTheme({
+      palette: PALETTES[accessibility.palette],
+      shapeCues: accessibility.shapeCues,
+      reducedMotion: accessibility.reducedMotion,
     });
+  }, [accessibility]);
+
+  // Autopilot demo games behind the start screen
+  useAttractMode(rendererRef, gameState === 'START' && !viewingReplay && !editingLayout);
+
+  const toggleMute = () => {
+    sound.unlock();
+    setAudio(a => ({ ...a, muted: !a.muted }));
+  };
 
-    // Bonus for cities
-    citiesRef.current.forEach(c => {
-      if (!c.destroyed) {
-        scoreRef.current += CITY_BONUS;
-        setScore(scoreRef.current);
+  // Adaptive games run the director on top of the Normal wave script
+  const selectDifficulty = (choice: DifficultyChoice) => {
+    setAdaptive(choice === 'ADAPTIVE');
+    setDifficulty(choice === 'ADAPTIVE' ? 'NORMAL' : choice);
+  };
+
+  const handlePadPress = (button: PadButton) => {
+    if (gameState === 'START') {
+      if (editingLayout) return;
+      const index = DIFFICULTY_CHOICES.indexOf(adaptive ? 'ADAPTIVE' : difficulty);
+      if (button === 'LEFT') selectDifficulty(DIFFICULTY_CHOICES[Math.max(0, index - 1)]);
+      if (button === 'RIGHT') selectDifficulty(DIFFICULTY_CHOICES[Math.min(DIFFICULTY_CHOICES.length - 1, index + 1)]);
+      const modeIndex = GAME_MODE_CHOICES.indexOf(mode);
+      if (button === 'UP') setMode(GAME_MODE_CHOICES[Math.max(0, modeIndex - 1)]);
+      if (button === 'DOWN') setMode(GAME_MODE_CHOICES[Math.min(GAME_MODE_CHOICES.length - 1, modeIndex + 1)]);
+      if (button === 'A' || button === 'START') initGame();
+    } else if (gameState === 'PAUSED') {
+      if (button === 'A' || button === 'START') resumeGame();
+    } else if (gameState === 'PLAYING') {
+      if (button === 'START') pauseGame();
+      if (shopOpen) {
+        if (button === 'A') continueToNextWave();
+        return;
       }
-    });
+      const group = PAD_BATTERY_BUTTONS[button];
+      if (group && simRef.current) {
+        fireMissile(crosshairRef.current.x, crosshairRef.current.y, batteryGroup(simRef.current.state.turrets, group));
+      }
+      const weapon = PAD_SPECIAL_BUTTONS[button];
+      if (weapon) fireSpecial(weapon);
+    } else if (!viewingReplay && (button === 'A' || button === 'START')) {
+      initGame();
+    }
+  };
 
-    waveRef.current += 1;
-    setWave(waveRef.current);
-    rocketsSpawnedInWaveRef.current = 0;
-    
-    const waveIncrement = difficulty === 'EASY' ? 5 : difficulty === 'NORMAL' ? 8 : 12;
-    totalRocketsInWaveRef.current = totalRocketsInWaveRef.current + waveIncrement;
-    
-    isWaveTransitionRef.current = false;
-    setIsWaveTransition(false);
-  };
-
-  const fireMissile = (targetX: number, targetY: number) => {
-    if (gameState !== 'PLAYING' || isWaveTransition) return;
-
-    // Find closest turret with ammo
-    let bestTurret: Turret | null = null;
-    let minDist = Infinity;
-
-    turretsRef.current.forEach(turret => {
-      if (!turret.destroyed && turret.ammo > 0) {
-        const dist = Math.abs(turret.x - targetX);
-        if (dist < minDist) {
-          minDist = dist;
-          bestTurret = turret;
-        }
+  const gamepad = useGamepad(handlePadPress);
+  const padConnectedRef = useRef(false);
+
+  useEffect(() => {
+    if (padConnectedRef.current === gamepad.connected) return;
+    padConnectedRef.current = gamepad.connected;
+    setPadNotice(gamepad.connected ? t('gamepadConnected') : t('gamepadDisconnected'));
+    const timeout = setTimeout(() => setPadNotice(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [gamepad.connected]);
+
+  useEffect(() => {
+    if (achievementToasts.length === 0) return;
+    const timeout = setTimeout(() => setAchievementToasts(queue => queue.slice(1)), ACHIEVEMENT_TOAST_MS);
+    return () => clearTimeout(timeout);
+  }, [achievementToasts]);
+
+  // Keyboard fire controls and crosshair
+  useEffect(() => {
+    const held = heldKeysRef.current;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'F3') {
+        e.preventDefault();
+        setShowPerf(v => !v);
+        return;
       }
-    });
+      if (e.key === 'F4') {
+        e.preventDefault();
+        setShowDirector(v => !v);
+        return;
+      }
+      if (e.key === 'Escape' || e.key.toLowerCase() === 'p') {
+        if (gameStateRef.current === 'PLAYING') pauseGame();
+        else if (gameStateRef.current === 'PAUSED') resumeGame();
+        return;
+      }
+      if (gameStateRef.current !== 'PLAYING') return;
+      if (e.key === 'Enter' && simRef.current?.state.shopOpen) {
+        e.preventDefault();
+        continueToNextWave();
+        return;
+      }
+      if (ARROW_KEYS.includes(e.key)) {
+        e.preventDefault();
+        held.add(e.key);
+        return;
+      }
+      if (e.repeat) return;
 
-    if (bestTurret) {
-      (bestTurret as Turret).ammo--;
-      missilesRef.current.push({
-        id: Math.random().toString(36).substr(2, 9),
-        startX: (bestTurret as Turret).x,
-        startY: (bestTurret as Turret).y,
-        x: (bestTurret as Turret).x,
-        y: (bestTurret as Turret).y,
-        targetX,
-        targetY,
-        speed: 0.04, // Increased from 0.02
-        progress: 0,
-        active: true
-      });
-    }
+      const weapon = specialForKey(e.key);
+      if (weapon) {
+        fireSpecial(weapon);
+        return;
+      }
+      const { x, y } = crosshairRef.current;
+      if (controlsRef.current.fireControl === 'manual') {
+        const turrets = simRef.current && batteryForKey(e.key, simRef.current.state.turrets);
+        if (turrets) fireMissile(x, y, turrets);
+      } else if (AUTO_FIRE_KEYS.includes(e.key)) {
+        e.preventDefault();
+        fireMissile(x, y);
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => held.delete(e.key);
+    // Leaving the tab or window pauses the game
+    const onBlur = () => {
+      held.clear();
+      pauseGame();
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+    const onPageHide = () => {
+      if (gameStateRef.current === 'PLAYING' || gameStateRef.current === 'PAUSED') saveRun();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }, []);
+
+  const exportReplay = (replay: Replay) => {
+    downloadFile(`nova-defense-replay-${replay.seed}.json`, serializeReplay(replay), 'application/json');
   };
 
-  const spawnRocket = () => {
-    const startX = Math.random() * GAME_WIDTH;
-    const targets = [...citiesRef.current, ...turretsRef.current].filter(t => !t.destroyed);
-    if (targets.length === 0) return;
-    
-    const target = targets[Math.floor(Math.random() * targets.length)];
-    
-    const speedModifier = difficulty === 'EASY' ? 0.7 : difficulty === 'NORMAL' ? 1 : 1.3;
-    // Faster balanced speed
-    const baseSpeed = 0.0015; // Increased from 0.001
-    const waveScaling = wave * 0.00015; // Increased from 0.0001
-    
-    rocketsRef.current.push({
-      id: Math.random().toString(36).substr(2, 9),
-      startX,
-      startY: 0,
-      x: startX,
-      y: 0,
-      targetX: target.x,
-      targetY: target.y,
-      speed: (baseSpeed + waveScaling) * speedModifier,
-      progress: 0,
-      active: true
-    });
+  // Labels of the game that just ended, which may have been played on an editor layout
+  const finalTurretLabels = () => simRef.current?.state.turrets.map(turret => turret.label) ?? [];
+
+  const exportStats = (stats: GameStats, format: 'json' | 'csv') => {
+    const turretLabels = finalTurretLabels();
+    const name = `nova-defense-stats-${new Date().toISOString().slice(0, 10)}`;
+    if (format === 'json') downloadFile(`${name}.json`, statsToJson(stats, turretLabels), 'application/json');
+    else downloadFile(`${name}.csv`, statsToCsv(stats, turretLabels), 'text/csv');
   };
 
-  useEffect(() => {
-    difficultyRef.current = difficulty;
-  }, [difficulty]);
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setViewingReplay(parseReplay(await file.text()));
+      setReplayError(null);
+    } catch (err) {
+      if (!(err instanceof ReplayFormatError)) throw err;
+      setReplayError(err.message);
+    }
+  };
 
   useEffect(() => {
     if (gameState !== 'PLAYING') return;
 
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const renderer = rendererRef.current;
+    if (!renderer) return;
 
     const loop = (time: number) => {
-      const dt = time - lastTimeRef.current;
-      lastTimeRef.current = time;
+      const sim = simRef.current;
+      if (!sim) return;
 
-      // Update
-      if (!isWaveTransitionRef.current) {
-        spawnTimerRef.current += dt;
-        const difficultyIntervalModifier = difficultyRef.current === 'EASY' ? 1.2 : difficultyRef.current === 'NORMAL' ? 1 : 0.8;
-        const spawnInterval = Math.max(400, (1500 - (waveRef.current * 100)) * difficultyIntervalModifier);
-        
-        if (spawnTimerRef.current > spawnInterval && rocketsSpawnedInWaveRef.current < totalRocketsInWaveRef.current) {
-          spawnRocket();
-          rocketsSpawnedInWaveRef.current++;
-          spawnTimerRef.current = 0;
-        }
-
-        // Check for wave completion
-        if (rocketsSpawnedInWaveRef.current >= totalRocketsInWaveRef.current && rocketsRef.current.length === 0) {
-          isWaveTransitionRef.current = true;
-          setIsWaveTransition(true);
-          
-          if (waveTimeoutRef.current) clearTimeout(waveTimeoutRef.current);
-          waveTimeoutRef.current = setTimeout(() => {
-            if (gameStateRef.current === 'PLAYING') {
-              startNextWave();
-            }
-            waveTimeoutRef.current = null;
-          }, 2000);
-        }
-      }
-
-      // Update Rockets
-      rocketsRef.current.forEach(rocket => {
-        rocket.progress += rocket.speed * (dt / 16);
-        rocket.x = rocket.startX + (rocket.targetX - rocket.startX) * rocket.progress;
-        rocket.y = rocket.startY + (rocket.targetY - rocket.startY) * rocket.progress;
-
-        if (rocket.progress >= 1) {
-          rocket.active = false;
-          // Hit target
-          const targetCity = citiesRef.current.find(c => c.x === rocket.targetX && c.y === rocket.targetY);
-          if (targetCity) targetCity.destroyed = true;
-          const targetTurret = turretsRef.current.find(t => t.x === rocket.targetX && t.y === rocket.targetY);
-          if (targetTurret) targetTurret.destroyed = true;
-          
-          // Create impact explosion
-          explosionsRef.current.push({
-            id: Math.random().toString(36).substr(2, 9),
-            x: rocket.x,
-            y: rocket.y,
-            radius: 0,
-            maxRadius: 30,
-            growing: true,
-            active: true
-          });
-        }
-      });
-
-      // Update Missiles
-      missilesRef.current.forEach(missile => {
-        missile.progress += missile.speed * (dt / 16);
-        missile.x = missile.startX + (missile.targetX - missile.startX) * missile.progress;
-        missile.y = missile.startY + (missile.targetY - missile.startY) * missile.progress;
-
-        if (missile.progress >= 1) {
-          missile.active = false;
-          explosionsRef.current.push({
-            id: Math.random().toString(36).substr(2, 9),
-            x: missile.targetX,
-            y: missile.targetY,
-            radius: 0,
-            maxRadius: 50,
-            growing: true,
-            active: true
-          });
-        }
-      });
-
-      // Update Explosions
-      explosionsRef.current.forEach(exp => {
-        if (exp.growing) {
-          exp.radius += 2 * (dt / 16);
-          if (exp.radius >= exp.maxRadius) exp.growing = false;
-        } else {
-          exp.radius -= 1 * (dt / 16);
-          if (exp.radius <= 0) exp.active = false;
-        }
-
-        // Check collision with rockets
-        rocketsRef.current.forEach(rocket => {
-          if (rocket.active) {
-            const dx = rocket.x - exp.x;
-            const dy = rocket.y - exp.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            if (dist < exp.radius) {
-              rocket.active = false;
-              scoreRef.current += POINTS_PER_KILL;
-              setScore(scoreRef.current);
-              // Chain explosion
-              explosionsRef.current.push({
-                id: Math.random().toString(36).substr(2, 9),
-                x: rocket.x,
-                y: rocket.y,
-                radius: 0,
-                maxRadius: 40,
-                growing: true,
-                active: true
-              });
-            }
+      const workStart = performance.now();
+      const frameMs = time - lastTimeRef.current;
+      const dt = Math.min(frameMs, MAX_FRAME_MS);
+      lastTimeRef.current = time;
+      let collisionChecks = 0;
+      let longestChain = 0;
+      moveCrosshair(crosshairRef.current, heldKeysRef.current, dt);
+      moveCrosshairWithStick(crosshairRef.current, gamepad.stickRef.current, dt);
+
+      // Update: run as many fixed ticks as the elapsed time covers, less at slower game speeds
+      accumulatorRef.current += dt * accessibilityRef.current.gameSpeed;
+      recorderRef.current?.noteGameSpeed(accessibilityRef.current.gameSpeed);
+      const spoken: string[] = [];
+      while (accumulatorRef.current >= FIXED_STEP_MS && !sim.isOver) {
+        const scoreBefore = sim.state.score;
+        const events = sim.step();
+        spoken.push(...announcementsFor(tRef.current, events, sim.state, scoreBefore));
+        events.forEach(event => {
+          if (event.type === 'cityDestroyed') rumble(gamepad.padRef.current, 0.8, 0.4, 250);
+          if (event.type === 'turretDestroyed') rumble(gamepad.padRef.current, 1, 0.6, 400);
+          if (event.type === 'rocketDestroyed' || event.type === 'aircraftDestroyed') {
+            longestChain = Math.max(longestChain, event.chain);
+          }
+          if (event.type === 'waveComplete' || event.type === 'shopOpened') saveRun();
+          if (event.type === 'directorDecision') {
+            console.info(`[director] ${formatDecision(event.decision)}`);
+            const { director } = sim.state;
+            if (director) setDirector({ ...director });
           }
         });
-      });
-
-      // Cleanup
-      rocketsRef.current = rocketsRef.current.filter(r => r.active);
-      missilesRef.current = missilesRef.current.filter(m => m.active);
-      explosionsRef.current = explosionsRef.current.filter(e => e.active);
-
-      // Check Win/Loss
-      if (scoreRef.current >= WIN_SCORE) {
-        gameStateRef.current = 'WON';
-        setGameState('WON');
+        sound.playEvents(events, sim.state);
+        renderer.addPopups(events, time);
+        const progress = trackAchievements(achievementRunRef.current!, events, sim.state);
+        const unlocked = progress ? recordAchievementProgress(progress) : [];
+        if (unlocked.length > 0) setAchievementToasts(queue => [...queue, ...unlocked]);
+        unlocked.forEach(id => {
+          const { target } = ACHIEVEMENTS.find(achievement => achievement.id === id)!;
+          spoken.push(`${tRef.current('achievementUnlocked')}: ${tRef.current(ACHIEVEMENT_TEXT[id][0], { count: target })}.`);
+        });
+        collisionChecks += sim.collisionChecks;
+        accumulatorRef.current -= FIXED_STEP_MS;
       }
-      if (turretsRef.current.every(t => t.destroyed)) {
-        gameStateRef.current = 'LOST';
-        setGameState('LOST');
+      sound.setDroneIntensity(sim.state.rockets.length + sim.state.aircraft.length);
+      announce(spoken);
+
+      const state = sim.state;
+      setScore(state.score);
+      setWave(state.wave);
+      if (longestChain > 0) setBestChain(best => Math.max(best, longestChain));
+      setIsWaveTransition(sim.isWaveTransition);
+      setShopOpen(state.shopOpen);
+      setTimeLeft(secondsLeft(sim));
+      const hud = readSpecialsHud(state);
+      setSpecialsHud(previous => (JSON.stringify(previous) === JSON.stringify(hud) ? previous : hud));
+      if (sim.isOver) {
+        clearSave();
+        setSavedGame(null);
+        // Best scores are only comparable on the built-in layout
+        setNewBest(!state.layout && recordBestScore(bestScoreKey(state.mode, state.difficulty, state.director !== null), state.score));
+        setBestScores(loadBestScores());
+        setFinalStats(state.stats);
+        gameStateRef.current = state.status;
+        setGameState(state.status);
+        if (recorderRef.current) setLastReplay(recorderRef.current.finish());
       }
 
-      // Draw
-      ctx.fillStyle = '#05050a';
-      ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-
-      // Draw Nebula/Galaxy Effect
-      const nebulaGradient = ctx.createRadialGradient(GAME_WIDTH/2, GAME_HEIGHT/2, 0, GAME_WIDTH/2, GAME_HEIGHT/2, GAME_WIDTH);
-      nebulaGradient.addColorStop(0, 'rgba(40, 20, 80, 0.15)');
-      nebulaGradient.addColorStop(0.5, 'rgba(20, 10, 40, 0.05)');
-      nebulaGradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-      ctx.fillStyle = nebulaGradient;
-      ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-
-      // Draw Moon
-      ctx.save();
-      ctx.shadowBlur = 30;
-      ctx.shadowColor = 'rgba(200, 200, 255, 0.4)';
-      ctx.fillStyle = '#e0e0e0';
-      ctx.beginPath();
-      ctx.arc(650, 100, 45, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
-
-      // Moon Craters
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.08)';
-      const craters = [[630, 85, 8], [670, 110, 12], [645, 120, 6], [660, 80, 5]];
-      craters.forEach(([cx, cy, cr]) => {
-        ctx.beginPath();
-        ctx.arc(cx, cy, cr, 0, Math.PI * 2);
-        ctx.fill();
-      });
-      ctx.restore();
-
-      // Draw Stars
-      starsRef.current.forEach(star => {
-        ctx.fillStyle = `rgba(${star.opacity > 0.8 ? '255,255,255' : '200,220,255'}, ${0.4 + star.opacity * 0.6})`;
-        ctx.beginPath();
-        ctx.arc(star.x, star.y, star.size * 1.3, 0, Math.PI * 2);
-        ctx.fill();
-      });
-
-      // Draw Ground
-      ctx.fillStyle = '#0a0a15';
-      ctx.fillRect(0, GAME_HEIGHT - 20, GAME_WIDTH, 20);
-
-      // Draw Cities
-      citiesRef.current.forEach(city => {
-        if (!city.destroyed) {
-          ctx.fillStyle = '#4ecca3';
-          ctx.fillRect(city.x - 15, city.y - 15, 30, 15);
-          ctx.fillStyle = '#45b293';
-          ctx.fillRect(city.x - 10, city.y - 25, 20, 10);
-          // Windows
-          ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-          ctx.fillRect(city.x - 12, city.y - 12, 4, 4);
-          ctx.fillRect(city.x + 8, city.y - 12, 4, 4);
-        } else {
-          ctx.fillStyle = '#222';
-          ctx.fillRect(city.x - 15, city.y - 5, 30, 5);
-        }
-      });
-
-      // Draw Turrets
-      turretsRef.current.forEach(turret => {
-        if (!turret.destroyed) {
-          ctx.fillStyle = '#3498db';
-          ctx.beginPath();
-          ctx.moveTo(turret.x - 20, turret.y + 10);
-          ctx.lineTo(turret.x + 20, turret.y + 10);
-          ctx.lineTo(turret.x, turret.y - 20);
-          ctx.closePath();
-          ctx.fill();
-          
-          // Turret barrel
-          ctx.strokeStyle = '#2980b9';
-          ctx.lineWidth = 5;
-          ctx.beginPath();
-          ctx.moveTo(turret.x, turret.y - 10);
-          ctx.lineTo(turret.x, turret.y - 28);
-          ctx.stroke();
-
-          // Ammo count
-          ctx.fillStyle = 'white';
-          ctx.font = 'bold 10px monospace';
-          ctx.textAlign = 'center';
-          ctx.fillText(turret.ammo.toString(), turret.x, turret.y + 25);
-        } else {
-          ctx.fillStyle = '#922b21';
-          ctx.fillRect(turret.x - 12, turret.y - 5, 24, 15);
-        }
-      });
-
-      // Draw Rockets (Enemy)
-      rocketsRef.current.forEach(rocket => {
-        // Trail
-        ctx.strokeStyle = 'rgba(255, 80, 80, 0.5)';
-        ctx.lineWidth = 2.5;
-        ctx.beginPath();
-        ctx.setLineDash([5, 5]);
-        ctx.moveTo(rocket.startX, rocket.startY);
-        ctx.lineTo(rocket.x, rocket.y);
-        ctx.stroke();
-        ctx.setLineDash([]);
-
-        // Rocket Head (Larger and Clearer)
-        const dx = rocket.targetX - rocket.startX;
-        const dy = rocket.targetY - rocket.startY;
-        const angle = Math.atan2(dy, dx);
-
-        ctx.save();
-        ctx.translate(rocket.x, rocket.y);
-        ctx.rotate(angle);
-        
-        // Enemy Rocket Body (Larger)
-        ctx.fillStyle = '#ff4d4d';
-        ctx.fillRect(-7, -3, 14, 6);
-        // Nose cone (Larger)
-        ctx.fillStyle = '#ff0000';
-        ctx.beginPath();
-        ctx.moveTo(7, -3);
-        ctx.lineTo(13, 0);
-        ctx.lineTo(7, 3);
-        ctx.fill();
-        // Fins
-        ctx.fillStyle = '#990000';
-        ctx.fillRect(-7, -5, 3, 10);
-        
-        // Fire tail (More dynamic)
-        const fireSize = 15 + Math.sin(time / 50) * 5;
-        const fireGrad = ctx.createLinearGradient(-7, 0, -7 - fireSize, 0);
-        fireGrad.addColorStop(0, '#ffcc00');
-        fireGrad.addColorStop(0.5, '#ff6600');
-        fireGrad.addColorStop(1, 'transparent');
-        ctx.fillStyle = fireGrad;
-        ctx.beginPath();
-        ctx.moveTo(-7, 0);
-        ctx.lineTo(-7 - fireSize, -4);
-        ctx.lineTo(-7 - fireSize * 0.8, 0);
-        ctx.lineTo(-7 - fireSize, 4);
-        ctx.fill();
-        
-        ctx.restore();
-      });
-
-      // Draw Missiles
-      missilesRef.current.forEach(missile => {
-        // Trail
-        ctx.strokeStyle = 'rgba(52, 152, 219, 0.4)';
-        ctx.lineWidth = 3; // Thicker trail
-        ctx.beginPath();
-        ctx.moveTo(missile.startX, missile.startY);
-        ctx.lineTo(missile.x, missile.y);
-        ctx.stroke();
-
-        // Missile Body
-        const dx = missile.targetX - missile.startX;
-        const dy = missile.targetY - missile.startY;
-        const angle = Math.atan2(dy, dx);
-
-        ctx.save();
-        ctx.translate(missile.x, missile.y);
-        ctx.rotate(angle);
-        
-        // Missile shape
-        ctx.fillStyle = '#ecf0f1';
-        ctx.fillRect(-6, -2, 12, 4); // Thicker body
-        ctx.fillStyle = '#3498db';
-        ctx.beginPath();
-        ctx.moveTo(6, -2);
-        ctx.lineTo(10, 0);
-        ctx.lineTo(6, 2);
-        ctx.fill();
-        
-        // Engine glow
-        ctx.fillStyle = '#f1c40f';
-        ctx.beginPath();
-        ctx.arc(-7, 0, 3, 0, Math.PI * 2);
-        ctx.fill();
-        
-        ctx.restore();
-
-        // Target X
-        ctx.strokeStyle = '#3498db';
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.moveTo(missile.targetX - 5, missile.targetY - 5);
-        ctx.lineTo(missile.targetX + 5, missile.targetY + 5);
-        ctx.moveTo(missile.targetX + 5, missile.targetY - 5);
-        ctx.lineTo(missile.targetX - 5, missile.targetY + 5);
-        ctx.stroke();
-      });
-
-      // Draw Explosions
-      explosionsRef.current.forEach(exp => {
-        const gradient = ctx.createRadialGradient(exp.x, exp.y, 0, exp.x, exp.y, exp.radius);
-        gradient.addColorStop(0, 'white');
-        gradient.addColorStop(0.4, 'rgba(241, 196, 15, 0.8)');
-        gradient.addColorStop(1, 'rgba(231, 76, 60, 0)');
-        
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(exp.x, exp.y, exp.radius, 0, Math.PI * 2);
-        ctx.fill();
-      });
+      const showCrosshair = controlsRef.current.keyboardCrosshair || gamepad.padRef.current !== null;
+      renderer.render(state, time, { crosshair: showCrosshair ? crosshairRef.current : null });
+
+      const sample = perfSampleRef.current;
+      sample.frames++;
+      sample.frameMs += frameMs;
+      sample.workMs += performance.now() - workStart;
+      sample.collisionChecks += collisionChecks;
+      if (time - sample.since >= PERF_SAMPLE_MS) {
+        setPerf({
+          fps: (sample.frames * 1000) / (time - sample.since),
+          frameMs: sample.frameMs / sample.frames,
+          workMs: sample.workMs / sample.frames,
+          rockets: state.rockets.length,
+          aircraft: state.aircraft.length,
+          missiles: state.missiles.length,
+          explosions: state.explosions.length,
+          collisionChecks: sample.collisionChecks / sample.frames,
+        });
+        perfSampleRef.current = { since: time, frames: 0, frameMs: 0, workMs: 0, collisionChecks: 0 };
+      }
 
       if (gameStateRef.current === 'PLAYING') {
-        requestAnimationFrame(loop);
+        frameId = requestAnimationFrame(loop);
       }
     };
 
-    const frameId = requestAnimationFrame(loop);
+    let frameId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(frameId);
   }, [gameState]);
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const controlLabels: ControlSettingsLabels = {
+    fireControl: t('fireControl'),
+    autoBattery: t('autoBattery'),
+    manualBattery: t('manualBattery'),
+    keyboardCrosshair: t('keyboardCrosshair'),
+    controlsAuto: t('controlsAuto'),
+    controlsManual: t('controlsManual'),
+    controlsCrosshair: t('controlsCrosshair'),
+    gamepadHint: t('gamepadHint'),
+  };
+
+  const audioLabels: AudioSettingsLabels = {
+    audio: t('audio'),
+    masterVolume: t('masterVolume'),
+    sfxVolume: t('sfxVolume'),
+    musicVolume: t('musicVolume'),
+  };
+
+  const graphicsLabels: GraphicsSettingsLabels = {
+    graphics: t('graphics'),
+    highQuality: t('highQuality'),
+    lowQuality: t('lowQuality'),
+    lowQualityHint: t('lowQualityHint'),
+  };
+
+  const specialLabels: SpecialWeaponsLabels = {
+    names: { emp: t('specialEmp'), slowMo: t('specialSlowMo') },
+    shield: t('supplyShield'),
+    describe: (weapon, count, key) => t('specialButton', { weapon: t(SUPPLY_NAMES[weapon]), count, key }),
+  };
+
+  const accessibilityLabels: AccessibilitySettingsLabels = {
+    accessibility: t('accessibility'),
+    palettes: {
+      default: t('paletteDefault'),
+      redGreen: t('paletteRedGreen'),
+      blueYellow: t('paletteBlueYellow'),
+      highContrast: t('paletteHighContrast'),
+    },
+    shapeCues: t('shapeCues'),
+    reducedMotion: t('reducedMotion'),
+    gameSpeed: t('gameSpeed'),
+    gameSpeedHint: t('gameSpeedHint'),
+  };
+
+  const shopLabels: UpgradeShopLabels = {
+    shopTitle: t('shopTitle'),
+    shopHint: t('shopHint'),
+    points: t('points'),
+    repair: t('repair'),
+    rebuild: t('rebuild'),
+    upgradeAmmo: t('upgradeAmmo'),
+    upgradeSpeed: t('upgradeSpeed'),
+    upgradeBlast: t('upgradeBlast'),
+    maxed: t('maxed'),
+    cities: t('cities'),
+    citiesIntact: t('citiesIntact'),
+    continueWave: t('continueWave'),
+  };
+
+  const achievementLabels: AchievementsGalleryLabels = {
+    title: t('achievements'),
+    close: t('close'),
+    names: Object.fromEntries(ACHIEVEMENTS.map(({ id, target }) => [id, t(ACHIEVEMENT_TEXT[id][0], { count: target })])) as Record<AchievementId, string>,
+    descriptions: Object.fromEntries(ACHIEVEMENTS.map(({ id, target }) => [id, t(ACHIEVEMENT_TEXT[id][1], { count: target })])) as Record<AchievementId, string>,
+    unlockedOn: date => t('achievementUnlockedOn', { date }),
+  };
+
+  const layoutEditorLabels: LayoutEditorLabels = {
+    title: t('layoutEditor'),
+    name: t('layoutName'),
+    tools: { select: t('toolSelect'), turret: t('toolTurret'), city: t('toolCity'), ground: t('toolGround') },
+    hint: t('layoutHint'),
+    reset: t('resetLayout'),
+    flatten: t('flattenGround'),
+    load: t('loadLayout'),
+    save: t('saveLayout'),
+    play: t('playLayout'),
+    close: t('close'),
+    type: t('turretType'),
+    ammo: t('ammo'),
+    remove: t('removeItem'),
+    archetypes: Object.fromEntries(
+      Object.entries(ARCHETYPE_TEXT).map(([archetype, [name]]) => [archetype, t(name)]),
+    ) as Record<TurretArchetype, string>,
+    city: n => t('cityLabel', { n }),
+    noTurrets: t('layoutNoTurrets'),
+    outOfBounds: item => t('layoutOutOfBounds', { item }),
+    overlap: (a, b) => t('layoutOverlap', { a, b }),
+    badAmmo: item => t('layoutBadAmmo', { item, min: AMMO_RANGE[0], max: AMMO_RANGE[1] }),
+    badGround: t('layoutBadGround'),
+  };
+
+  const openAchievements = () => {
+    setAchievements(loadAchievements());
+    setShowAchievements(true);
+  };
+
+  const toGameCoords = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return null;
+    // The backing store is scaled for the screen, so map from CSS pixels straight to game space
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
-    fireMissile(x, y);
+    const scaleX = GAME_WIDTH / rect.width;
+    const scaleY = GAME_HEIGHT / rect.height;
+    return {
+      x: (e.clientX - rect.left) * scaleX,
+      y: (e.clientY - rect.top) * scaleY,
+    };
+  };
+
+  // The mouse always moves the crosshair, so keys fire wherever it points last
+  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toGameCoords(e);
+    if (!point) return;
+    crosshairRef.current.x = point.x;
+    crosshairRef.current.y = point.y;
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toGameCoords(e);
+    if (!point || controls.fireControl === 'manual') return;
+    fireMissile(point.x, point.y);
   };
 
   return (
@@ -663,24 +806,72 @@ export default function App() {
         <div className="flex items-center gap-3">
           <Shield className="w-8 h-8 text-emerald-400" />
           <h1 className="text-2xl font-bold tracking-tight uppercase italic font-serif">
-            {t.title}
+            {t('title')}
           </h1>
         </div>
         <div className="flex items-center gap-4">
+          {gamepad.connected && (
+            <div
+              title={gamepad.padId ?? undefined}
+              className="bg-white/5 border border-emerald-500/40 p-1.5 rounded-full flex items-center"
+            >
+              <Gamepad2 className="w-4 h-4 text-emerald-400" />
+            </div>
+          )}
           <div className="bg-white/5 border border-white/10 px-4 py-1 rounded-full flex items-center gap-2">
             <Target className="w-4 h-4 text-blue-400" />
-            <span className="font-mono text-sm">{t.wave}: {wave}</span>
+            <span className="font-mono text-sm">{t('wave')}: {wave}</span>
           </div>
           <div className="bg-white/5 border border-white/10 px-4 py-1 rounded-full flex items-center gap-2">
             <Trophy className="w-4 h-4 text-yellow-400" />
-            <span className="font-mono text-sm">{t.score}: {score}</span>
+            <span className="font-mono text-sm">{t('score')}: {score}</span>
           </div>
-          <button 
-            onClick={() => setLang(l => l === 'zh' ? 'en' : 'zh')}
+          <div title={t('bestChain')} className="bg-white/5 border border-white/10 px-4 py-1 rounded-full flex items-center gap-2">
+            <Zap className="w-4 h-4 text-amber-400" />
+            <span className="font-mono text-sm">×{bestChain}</span>
+          </div>
+          {timeLeft !== null && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+            <div
+              title={t('timeLeft')}
+              className={`bg-white/5 border px-4 py-1 rounded-full flex items-center gap-2 ${
+                timeLeft <= 30 ? 'border-red-500/60 text-red-400' : 'border-white/10'
+              }`}
+            >
+              <Timer className="w-4 h-4" />
+              <span className="font-mono text-sm">{formatClock(timeLeft)}</span>
+            </div>
+          )}
+          {(gameState === 'PLAYING' || gameState === 'PAUSED') && (
+            <button
+              onClick={gameState === 'PLAYING' ? pauseGame : resumeGame}
+              title={t('pauseHint')}
+              className="p-2 hover:bg-white/10 rounded-full transition-colors"
+            >
+              {gameState === 'PLAYING' ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </button>
+          )}
+          <button
+            onClick={toggleMute}
+            title={audio.muted ? t('unmute') : t('mute')}
             className="p-2 hover:bg-white/10 rounded-full transition-colors"
           >
-            <Globe className="w-5 h-5" />
+            {audio.muted ? <VolumeX className="w-5 h-5 text-gray-500" /> : <Volume2 className="w-5 h-5" />}
           </button>
+          <label className="flex items-center gap-1 p-2 hover:bg-white/10 rounded-full transition-colors cursor-pointer" title={t('language')}>
+            <Globe className="w-5 h-5" />
+            <select
+              value={locale}
+              onChange={e => changeLocale(e.target.value as Locale)}
+              aria-label={t('language')}
+              className="bg-transparent text-sm outline-none cursor-pointer"
+            >
+              {LOCALE_CODES.map(code => (
+                <option key={code} value={code} className="bg-[#0a0a0a]">
+                  {LOCALES[code].languageName}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
       </div>
 
@@ -688,123 +879,510 @@ export default function App() {
       <div className="relative w-full max-w-[800px] aspect-[4/3] bg-black rounded-2xl overflow-hidden shadow-2xl border border-white/5">
         <canvas
           ref={canvasRef}
-          width={GAME_WIDTH}
-          height={GAME_HEIGHT}
           onClick={handleCanvasClick}
+          onMouseMove={handleCanvasMouseMove}
+          role="img"
+          aria-label={t('canvasLabel', { wave, score })}
           className="w-full h-full cursor-crosshair"
         />
+        <div role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
 
-        {/* Overlays */}
-        <AnimatePresence>
-          {isWaveTransition && gameState === 'PLAYING' && (
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none z-40"
-            >
-              <div className="bg-emerald-500 text-black px-6 py-2 rounded-full font-bold text-xl shadow-lg">
-                {t.waveComplete}
-              </div>
-            </motion.div>
-          )}
-          {gameState === 'START' && (
-            <motion.div 
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="absolute inset-0 bg-black/80 backdrop-blur-sm flex flex-col items-center justify-center p-8 text-center z-50"
-            >
-              <motion.h2 
-                initial={{ y: 20 }}
-                animate={{ y: 0 }}
-                className="text-5xl font-bold mb-6 italic font-serif"
+        {/* Overlays; the motion setting only affects sliding and scaling, fades stay */}
+        <MotionConfig reducedMotion={accessibility.reducedMotion ? 'always' : 'never'}>
+          <AnimatePresence>
+            {padNotice && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none z-[60]"
+              >
+                <div className="bg-black/80 border border-white/10 px-4 py-1.5 rounded-full text-sm flex items-center gap-2">
+                  <Gamepad2 className="w-4 h-4 text-emerald-400" />
+                  {padNotice}
+                </div>
+              </motion.div>
+            )}
+            {achievementToasts.length > 0 && (
+              <motion.div
+                key={achievementToasts[0]}
+                initial={{ opacity: 0, x: 40 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 40 }}
+                className="absolute top-4 right-4 pointer-events-none z-[60]"
+              >
+                <div className="bg-black/85 border border-yellow-400/50 px-4 py-2 rounded-xl flex items-center gap-3 shadow-lg shadow-yellow-400/10">
+                  <Award className="w-6 h-6 text-yellow-400" />
+                  <div className="text-left">
+                    <div className="text-[10px] uppercase tracking-widest text-yellow-400/80">{t('achievementUnlocked')}</div>
+                    <div className="text-sm font-bold">{achievementLabels.names[achievementToasts[0]]}</div>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+            {isWaveTransition && !shopOpen && gameState === 'PLAYING' && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none z-40"
+              >
+                <div className="bg-emerald-500 text-black px-6 py-2 rounded-full font-bold text-xl shadow-lg">
+                  {t('waveComplete')}
+                </div>
+              </motion.div>
+            )}
+            {shopOpen && gameState === 'PLAYING' && simRef.current && (
+              <UpgradeShop
+                state={simRef.current.state}
+                onBuy={buyUpgrade}
+                onContinue={continueToNextWave}
+                labels={shopLabels}
+              />
+            )}
+            {gameState === 'START' && !editingLayout && (
+              <motion.div 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 bg-black/80 backdrop-blur-sm flex flex-col items-center justify-center-safe p-8 text-center z-50 overflow-y-auto"
               >
-                {t.title}
-              </motion.h2>
-              <p className="max-w-md text-gray-400 mb-8 leading-relaxed">
-                {t.instructions}
-                <br />
-                <span className="text-emerald-400 mt-2 block font-medium">{t.winTarget}</span>
-              </p>
-
-              {/* Difficulty Selection */}
-              <div className="flex flex-col gap-4 mb-10">
-                <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{t.difficulty}</span>
-                <div className="flex gap-2 p-1 bg-white/5 rounded-full border border-white/10">
-                  {(['EASY', 'NORMAL', 'HARD'] as Difficulty[]).map((d) => (
+                <motion.h2 
+                  initial={{ y: 20 }}
+                  animate={{ y: 0 }}
+                  className="text-5xl font-bold mb-6 italic font-serif"
+                >
+                  {t('title')}
+                </motion.h2>
+                <p className="max-w-md text-gray-400 mb-8 leading-relaxed">
+                  {t('instructions')}
+                  <br />
+                  <span className="text-emerald-400 mt-2 block font-medium">
+                    {t(MODE_GOALS[mode], { score: WIN_SCORE, count: TIME_ATTACK_MS / 60000 })}
+                  </span>
+                  {!layout && bestScores[bestScoreKey(mode, difficulty, adaptive)] !== undefined && (
+                    <span className="text-yellow-400/80 mt-1 block text-sm font-mono">
+                      {t('bestScore', { score: bestScores[bestScoreKey(mode, difficulty, adaptive)] })}
+                    </span>
+                  )}
+                </p>
+
+                {/* Mode Selection */}
+                <div className="flex flex-col gap-4 mb-6 items-center">
+                  <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{t('mode')}</span>
+                  <div className="flex gap-2 p-1 bg-white/5 rounded-full border border-white/10">
+                    {GAME_MODE_CHOICES.map((m) => (
+                      <button
+                        key={m}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setMode(m);
+                        }}
+                        className={`px-4 py-2 rounded-full text-sm font-bold transition-all ${
+                          mode === m
+                            ? 'bg-emerald-500 text-black shadow-lg shadow-emerald-500/20'
+                            : 'text-gray-400 hover:text-white hover:bg-white/5'
+                        }`}
+                      >
+                        {t(m)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Difficulty Selection */}
+                <div className="flex flex-col gap-4 mb-6">
+                  <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{t('difficulty')}</span>
+                  <div className="flex gap-2 p-1 bg-white/5 rounded-full border border-white/10">
+                    {DIFFICULTY_CHOICES.map((d) => (
+                      <button
+                        key={d}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          selectDifficulty(d);
+                        }}
+                        className={`px-6 py-2 rounded-full text-sm font-bold transition-all ${
+                          (adaptive ? 'ADAPTIVE' : difficulty) === d 
+                            ? 'bg-emerald-500 text-black shadow-lg shadow-emerald-500/20' 
+                            : 'text-gray-400 hover:text-white hover:bg-white/5'
+                        }`}
+                      >
+                        {t(DIFFICULTY_LABELS[d])}
+                      </button>
+                    ))}
+                  </div>
+                  {adaptive && <span className="text-xs text-gray-500 max-w-sm self-center">{t('adaptiveHint')}</span>}
+                </div>
+
+                <div className="mb-8 flex flex-col gap-6">
+                  <ControlSettingsPanel
+                    controls={controls}
+                    onChange={setControls}
+                    gamepadConnected={gamepad.connected}
+                    labels={controlLabels}
+                  />
+                  <AudioSettingsPanel settings={audio} onChange={setAudio} labels={audioLabels} />
+                  <GraphicsSettingsPanel quality={quality} onChange={setQuality} labels={graphicsLabels} />
+                  <AccessibilitySettingsPanel settings={accessibility} onChange={changeAccessibility} labels={accessibilityLabels} />
+                </div>
+
+                <div className="mb-3 flex flex-wrap justify-center gap-2">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openAchievements();
+                    }}
+                    className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                  >
+                    <Award className="w-4 h-4 text-yellow-400" />
+                    {t('achievements')}
+                    <span className="font-mono text-xs text-gray-400">
+                      {ACHIEVEMENTS.filter(({ id }) => achievements[id].unlockedAt !== null).length}/{ACHIEVEMENTS.length}
+                    </span>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingLayout(true);
+                    }}
+                    className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                  >
+                    <Mountain className="w-4 h-4 text-emerald-400" />
+                    {t('layoutEditor')}
+                  </button>
+                </div>
+                {layout && (
+                  <div className="mb-3 flex items-center gap-2 text-xs">
+                    <span className="font-mono text-emerald-400">{t('customLayout', { name: layout.name })}</span>
                     <button
-                      key={d}
                       onClick={(e) => {
                         e.stopPropagation();
-                        setDifficulty(d);
+                        clearLayout();
                       }}
-                      className={`px-6 py-2 rounded-full text-sm font-bold transition-all ${
-                        difficulty === d 
-                          ? 'bg-emerald-500 text-black shadow-lg shadow-emerald-500/20' 
-                          : 'text-gray-400 hover:text-white hover:bg-white/5'
-                      }`}
+                      className="px-2 py-0.5 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
                     >
-                      {t[d.toLowerCase() as keyof typeof t.zh]}
+                      {t('useDefaultLayout')}
                     </button>
-                  ))}
+                  </div>
+                )}
+
+                {savedGame && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      continueGame();
+                    }}
+                    className="mb-3 px-8 py-3 bg-white/10 border border-emerald-500/50 hover:bg-white/15 rounded-full transition-all hover:scale-105 active:scale-95 flex items-center gap-3"
+                  >
+                    <Play className="w-5 h-5 text-emerald-400" />
+                    <span className="font-bold">{t('continueRun')}</span>
+                    <span className="font-mono text-xs text-gray-400">
+                      {savedGame.state.director ? t('adaptive') : t(DIFFICULTY_LABELS[savedGame.state.difficulty])} · {t('wave')} {savedGame.state.wave} · {t('score')} {savedGame.state.score}
+                    </span>
+                  </button>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    initGame();
+                  }}
+                  className="group relative px-12 py-4 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center gap-3 text-lg"
+                >
+                  <Target className="w-6 h-6" />
+                  {t('start')}
+                </button>
+              </motion.div>
+            )}
+
+            {editingLayout && gameState === 'START' && (
+              <LayoutEditor
+                initial={layout ?? DEFAULT_LAYOUT}
+                rendererRef={rendererRef}
+                labels={layoutEditorLabels}
+                onPlay={playLayout}
+                onClose={() => setEditingLayout(false)}
+              />
+            )}
+
+            {showAchievements && gameState === 'START' && (
+              <AchievementsGallery
+                records={achievements}
+                locale={locale}
+                labels={achievementLabels}
+                onClose={() => setShowAchievements(false)}
+              />
+            )}
+
+            {gameState === 'PAUSED' && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center-safe p-8 text-center z-50 overflow-y-auto"
+              >
+                <h2 className="text-4xl font-bold mb-2 italic font-serif">{t('paused')}</h2>
+                <p className="text-xs text-gray-500 mb-8">{t('pauseHint')}</p>
+                <div className="flex flex-col gap-3 w-56">
+                  <button
+                    onClick={resumeGame}
+                    className="px-8 py-3 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center justify-center gap-2"
+                  >
+                    <Play className="w-5 h-5" />
+                    {t('resume')}
+                  </button>
+                  <button
+                    onClick={initGame}
+                    className="px-8 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full transition-colors flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {t('restart')}
+                  </button>
+                  <button
+                    onClick={() => setShowPauseSettings(v => !v)}
+                    className={`px-8 py-2 border rounded-full transition-colors flex items-center justify-center gap-2 ${
+                      showPauseSettings ? 'bg-white/15 border-white/30' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                    }`}
+                  >
+                    <Settings className="w-4 h-4" />
+                    {t('settings')}
+                  </button>
+                  <button
+                    onClick={quitToMenu}
+                    className="px-8 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Home className="w-4 h-4" />
+                    {t('quitToMenu')}
+                  </button>
                 </div>
-              </div>
-
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  initGame();
-                }}
-                className="group relative px-12 py-4 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center gap-3 text-lg"
+                {showPauseSettings && (
+                  <div className="mt-6 flex flex-col gap-6">
+                    <ControlSettingsPanel
+                      controls={controls}
+                      onChange={setControls}
+                      gamepadConnected={gamepad.connected}
+                      labels={controlLabels}
+                    />
+                    <AudioSettingsPanel settings={audio} onChange={setAudio} labels={audioLabels} />
+                    <GraphicsSettingsPanel quality={quality} onChange={setQuality} labels={graphicsLabels} />
+                    <AccessibilitySettingsPanel settings={accessibility} onChange={changeAccessibility} labels={accessibilityLabels} />
+                  </div>
+                )}
+              </motion.div>
+            )}
+
+            {(gameState === 'WON' || gameState === 'LOST') && !viewingReplay && (
+              <motion.div 
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="absolute inset-0 bg-black/90 backdrop-blur-md flex flex-col items-center justify-center-safe p-8 text-center z-50 overflow-y-auto"
               >
-                <Target className="w-6 h-6" />
-                {t.start}
-              </button>
-            </motion.div>
-          )}
+                <div className={`w-20 h-20 rounded-full flex items-center justify-center mb-6 ${gameState === 'WON' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
+                  {gameState === 'WON' ? <Trophy className="w-10 h-10" /> : <Shield className="w-10 h-10" />}
+                </div>
+                <h2 className="text-4xl font-bold mb-2 italic font-serif">
+                  {t(END_TITLES[mode][gameState])}
+                </h2>
+                {mode === 'endless' && (
+                  <p className="text-gray-400 mb-2">{t('wavesSurvived', { count: wave - 1 })}</p>
+                )}
+                <div className="text-2xl font-mono text-gray-400">
+                  {t('score')}: {score}
+                </div>
+                <div className={`text-sm font-mono mb-8 mt-1 ${newBest ? 'text-yellow-400 font-bold' : 'text-gray-500'}`}>
+                  {lastReplay?.layout
+                    ? t('customLayout', { name: lastReplay.layout.name })
+                    : newBest ? t('newBest') : t('bestScore', { score: bestScores[bestScoreKey(mode, difficulty, adaptive)] ?? score })}
+                </div>
+                {finalStats && (
+                  <StatsPanel
+                    stats={finalStats}
+                    turretLabels={finalTurretLabels()}
+                    labels={{
+                      title: t('statsTitle'),
+                      shots: t('statShots'),
+                      hits: t('statHits'),
+                      accuracy: t('statAccuracy'),
+                      kills: t('statKills'),
+                      longestChain: t('statLongestChain'),
+                      landed: t('statLanded'),
+                      time: t('statTime'),
+                      perWave: t('statPerWave'),
+                      wave: t('wave'),
+                    }}
+                  />
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    initGame();
+                  }}
+                  className="px-8 py-3 bg-white text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center gap-2"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                  {t('restart')}
+                </button>
+
+                {/* Replay Controls */}
+                <div className="flex flex-wrap justify-center gap-2 mt-6">
+                  {lastReplay && (
+                    <>
+                      <button
+                        onClick={() => setViewingReplay(lastReplay)}
+                        className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                      >
+                        <Film className="w-4 h-4" />
+                        {t('watchReplay')}
+                      </button>
+                      <button
+                        onClick={() => exportReplay(lastReplay)}
+                        className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                      >
+                        <Download className="w-4 h-4" />
+                        {t('exportReplay')}
+                      </button>
+                    </>
+                  )}
+                  {finalStats && (
+                    <>
+                      <button
+                        onClick={() => exportStats(finalStats, 'json')}
+                        className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                      >
+                        <FileJson className="w-4 h-4" />
+                        {t('exportStatsJson')}
+                      </button>
+                      <button
+                        onClick={() => exportStats(finalStats, 'csv')}
+                        className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                      >
+                        <FileSpreadsheet className="w-4 h-4" />
+                        {t('exportStatsCsv')}
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => replayInputRef.current?.click()}
+                    className="px-4 py-2 bg-white/5 border border-white/10 hover:bg-white/10 rounded-full text-sm flex items-center gap-2 transition-colors"
+                  >
+                    <Upload className="w-4 h-4" />
+                    {t('importReplay')}
+                  </button>
+                  <input
+                    ref={replayInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={importReplay}
+                    className="hidden"
+                  />
+                </div>
+                {replayError && (
+                  <p className="mt-3 text-sm text-red-400">{replayError}</p>
+                )}
+
+                {/* Adaptive and slowed-down scores are not comparable with regular games */}
+                {lastReplay?.mode === 'classic' && !lastReplay.adaptive && !lastReplay.layout && lastReplay.gameSpeed === 1 && (
+                  <Leaderboard
+                    difficulty={lastReplay.difficulty}
+                    score={lastReplay.score}
+                    wave={lastReplay.wave}
+                    durationMs={lastReplay.endTick * FIXED_STEP_MS}
+                    labels={{
+                      enterName: t('enterName'),
+                      submit: t('submit'),
+                      allTime: t('allTime'),
+                      today: t('today'),
+                      offline: t('offline'),
+                      yourRank: t('yourRank'),
+                      wave: t('wave'),
+                    }}
+                  />
+                )}
+              </motion.div>
+            )}
+
+            {viewingReplay && (
+              <ReplayViewer
+                replay={viewingReplay}
+                rendererRef={rendererRef}
+                labels={{ replay: t('replay'), wave: t('wave'), score: t('score'), close: t('close') }}
+                onClose={() => setViewingReplay(null)}
+              />
+            )}
+          </AnimatePresence>
+        </MotionConfig>
+
+        {showPerf && perf && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+          <PerfOverlay
+            stats={perf}
+            labels={{
+              frame: t('perfFrame'),
+              work: t('perfWork'),
+              entities: t('perfEntities'),
+              collisionChecks: t('perfChecks'),
+              toggleHint: t('perfToggle'),
+            }}
+          />
+        )}
 
-          {(gameState === 'WON' || gameState === 'LOST') && (
-            <motion.div 
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              className="absolute inset-0 bg-black/90 backdrop-blur-md flex flex-col items-center justify-center p-8 text-center z-50"
-            >
-              <div className={`w-20 h-20 rounded-full flex items-center justify-center mb-6 ${gameState === 'WON' ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
-                {gameState === 'WON' ? <Trophy className="w-10 h-10" /> : <Shield className="w-10 h-10" />}
-              </div>
-              <h2 className="text-4xl font-bold mb-2 italic font-serif">
-                {gameState === 'WON' ? t.win : t.loss}
-              </h2>
-              <div className="text-2xl font-mono mb-8 text-gray-400">
-                {t.score}: {score}
-              </div>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  initGame();
-                }}
-                className="px-8 py-3 bg-white text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center gap-2"
-              >
-                <RotateCcw className="w-5 h-5" />
-                {t.restart}
-              </button>
-            </motion.div>
-          )}
-        </AnimatePresence>
+        {showDirector && director && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+          <DirectorPanel
+            director={director}
+            labels={{
+              director: t('director'),
+              intensity: t('intensity'),
+              targetBand: t('targetBand'),
+              wave: t('wave'),
+              accuracy: t('accuracy'),
+              ammoLeft: t('ammoLeft'),
+              citiesLost: t('citiesLost'),
+              reaction: t('reaction'),
+              performance: t('performance'),
+              nextWave: t('nextWave'),
+              toggleHint: t('directorToggle'),
+            }}
+          />
+        )}
+
+        {/* Special weapons, above the ammo bars */}
+        {(gameState === 'PLAYING' || gameState === 'PAUSED') && simRef.current?.modeConfig.supplyDrops && (
+          <SpecialWeaponsBar hud={specialsHud} hotkeys={SPECIAL_KEYS} onUse={fireSpecial} labels={specialLabels} />
+        )}
 
         {/* HUD Overlay (Ammo) */}
-        {gameState === 'PLAYING' && (
+        {(gameState === 'PLAYING' || gameState === 'PAUSED') && (
           <div className="absolute bottom-6 left-0 right-0 px-8 flex justify-between pointer-events-none">
-            {turretsRef.current.map(turret => (
+            {simRef.current?.state.turrets.map(turret => (
               <div key={turret.id} className="flex flex-col items-center">
-                <div className={`h-1 w-12 rounded-full mb-1 ${turret.destroyed ? 'bg-red-900' : 'bg-blue-900'}`}>
+                {/* Ammo upgrades lengthen the bar */}
+                <div
+                  className={`h-1 rounded-full mb-1 ${turret.destroyed ? 'bg-red-900' : 'bg-blue-900'}`}
+                  style={{ width: 48 + turret.upgrades.ammo * 8 }}
+                >
                   <motion.div 
-                    className={`h-full rounded-full ${turret.destroyed ? 'bg-red-500' : 'bg-blue-400'}`}
+                    className={`h-full rounded-full ${turret.destroyed ? 'bg-red-500' : ''}`}
+                    style={turret.destroyed ? undefined : { backgroundColor: PALETTES[accessibility.palette].interceptors[turret.archetype].body }}
                     initial={{ width: '100%' }}
                     animate={{ width: `${(turret.ammo / turret.maxAmmo) * 100}%` }}
                   />
                 </div>
+                <div className="flex gap-0.5 h-1 mb-1">
+                  {(Object.keys(UPGRADE_COLORS) as TurretUpgrade[]).flatMap(kind =>
+                    Array.from({ length: turret.upgrades[kind] }, (_, i) => (
+                      <span
+                        key={`${kind}-${i}`}
+                        className="w-1 h-1 rounded-full"
+                        style={{ backgroundColor: UPGRADE_COLORS[kind] }}
+                      />
+                    ))
+                  )}
+                </div>
+                {controls.fireControl === 'manual' && (
+                  <span className="font-mono text-[10px] text-gray-500">
+                    {turret.label}{turret.id < TURRET_KEYS.length && ` · ${TURRET_KEYS[turret.id]}`}
+                  </span>
+                )}
               </div>
             ))}
           </div>
@@ -816,31 +1394,105 @@ export default function App() {
         <div className="bg-white/5 border border-white/10 p-4 rounded-2xl">
           <div className="flex items-center gap-2 mb-2 text-emerald-400">
             <Info className="w-4 h-4" />
-            <span className="text-xs font-bold uppercase tracking-wider">How to Play</span>
+            <span className="text-xs font-bold uppercase tracking-wider">{t('howToPlay')}</span>
           </div>
           <p className="text-sm text-gray-400 leading-snug">
-            {t.instructions}
+            {t('instructions')}
+          </p>
+          <p className="text-xs text-gray-500 leading-snug mt-2">
+            {controls.fireControl === 'auto' ? t('controlsAuto') : t('controlsManual')}
+          </p>
+          <p className="text-xs text-gray-500 leading-snug mt-2">
+            {t('controlsSpecials', { emp: SPECIAL_KEYS.emp.toUpperCase(), slowMo: SPECIAL_KEYS.slowMo.toUpperCase() })}
           </p>
         </div>
         <div className="bg-white/5 border border-white/10 p-4 rounded-2xl">
           <div className="flex items-center gap-2 mb-2 text-blue-400">
             <Target className="w-4 h-4" />
-            <span className="text-xs font-bold uppercase tracking-wider">Ammo Management</span>
+            <span className="text-xs font-bold uppercase tracking-wider">{t('ammoManagement')}</span>
           </div>
-          <p className="text-sm text-gray-400 leading-snug">
-            Left: 20 | Center: 40 | Right: 20. Use them wisely!
-          </p>
+          <p className="text-sm text-gray-400 leading-snug mb-2">{t('ammoLoadout')}</p>
+          <ul className="flex flex-col gap-1.5">
+            {describeLoadout(layout ?? DEFAULT_LAYOUT).map(({ archetype, slots, ammo }) => {
+              const config = TURRET_ARCHETYPES[archetype];
+              const [name, hint] = ARCHETYPE_TEXT[archetype];
+              return (
+                <li key={archetype} className="text-xs leading-snug">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: PALETTES[accessibility.palette].interceptors[archetype].body }} />
+                    <span className="font-bold text-gray-300">{t(name)}</span>
+                    <span className="font-mono text-gray-500">{slots.join(' ')}</span>
+                    <span className="ml-auto font-mono text-gray-500">{t('rounds', { count: ammo.join('/') })}</span>
+                  </div>
+                  <div className="text-gray-500 pl-4">
+                    {t(hint, { reload: config.cooldownMs / 1000, range: config.range ?? 0 })}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
         </div>
         <div className="bg-white/5 border border-white/10 p-4 rounded-2xl">
           <div className="flex items-center gap-2 mb-2 text-yellow-400">
             <Trophy className="w-4 h-4" />
-            <span className="text-xs font-bold uppercase tracking-wider">Objective</span>
+            <span className="text-xs font-bold uppercase tracking-wider">{t('objective')}</span>
           </div>
           <p className="text-sm text-gray-400 leading-snug">
-            {t.winTarget}. Each kill is 20 points.
+            {t(MODE_GOALS[mode], { score: WIN_SCORE, count: TIME_ATTACK_MS / 60000 })}
+            <br />
+            {t('rocketPoints', { count: ROCKET_TYPES.rocket.points, multiplier: SCORING[difficulty].maxMultiplier })}
           </p>
         </div>
       </div>
     </div>
   );
 }
+
+// What the live region reads out for one step's events
+function announcementsFor(t: Translator, events: SimulationEvent[], state: SimulationState, scoreBefore: number): string[] {
+  const messages: string[] = [];
+  for (const event of events) {
+    switch (event.type) {
+      case 'waveStarted':
+        messages.push(t('announceWaveStarted', { wave: event.wave }));
+        break;
+      case 'waveComplete':
+        messages.push(t('announceWaveComplete', { wave: event.wave }));
+        break;
+      case 'cityDestroyed':
+        messages.push(t('announceCityLost', { count: state.cities.filter(city => !city.destroyed).length }));
+        break;
+      case 'turretDestroyed':
+        messages.push(t('announceTurretLost', { turret: state.turrets[event.turretId].label }));
+        break;
+      case 'crateCollected':
+        messages.push(t('announceSupply', { item: t(SUPPLY_NAMES[event.kind]) }));
+        break;
+      case 'gameOver':
+        messages.push(`${t(END_TITLES[state.mode][event.status])}. ${t('score')}: ${state.score}.`);
+        break;
+    }
+  }
+  const milestone = Math.floor(state.score / SCORE_MILESTONE) * SCORE_MILESTONE;
+  if (milestone > scoreBefore && milestone > 0) messages.push(t('announceScore', { score: milestone }));
+  return messages;
+}
+
+// Cooldowns and effect timers in tenths of a second, which is as fine as the HUD shows them
+function readSpecialsHud(state: SimulationState): SpecialWeaponsHud {
+  const round = (ms: number) => Math.ceil(ms / 100) * 100;
+  const specials = { ...state.specials };
+  for (const weapon of Object.keys(specials) as SpecialWeapon[]) {
+    specials[weapon] = { charges: specials[weapon].charges, cooldownMs: round(specials[weapon].cooldownMs) };
+  }
+  return { specials, shieldMs: round(state.shieldMs), slowMoMs: round(state.slowMoMs) };
+}
+
+function secondsLeft(sim: GameSimulation): number | null {
+  const ms = sim.timeLeftMs;
+  return ms === null ? null : Math.ceil(ms / 1000);
+}
+
+function formatClock(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
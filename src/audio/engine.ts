@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SimulationEvent, SimulationState, SpecialWeapon } from '../game/types';
+
+// --- Settings ---
+
+export type AudioSettings = {
+  // Volumes are 0..1
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
+};
+
+const SETTINGS_KEY = 'nova-defense:audio';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  sfx: 0.8,
+  music: 0.5,
+  muted: false,
+};
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    return { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// --- Engine ---
+
+// Warn once per wave when the living batteries are down to this share of their capacity
+const LOW_AMMO_RATIO = 0.2;
+// Chain reactions (and swarm mode) can set off dozens of explosions or impacts
+// in one tick; repeats of the same sound closer together than this are dropped
+const MIN_REPEAT_GAP_S = 0.03;
+const MAX_DRONE_ROCKETS = 20;
+
+/**
+ * Synthesizes every sound with oscillators and filtered noise, so nothing has
+ * to be downloaded. The AudioContext is only created by `unlock()`, which must
+ * run inside a user gesture to satisfy browser autoplay rules; until then all
+ * calls are silently ignored.
+ */
+export class SoundEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfx: GainNode | null = null;
+  private music: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private drone: { oscillators: OscillatorNode[]; filter: BiquadFilterNode; gain: GainNode } | null = null;
+  private settings: AudioSettings;
+  private lastPlayedAt: Partial<Record<'explosion' | 'impact', number>> = {};
+  // `seed:wave` of the last low-ammo warning, so it sounds once per wave of a game
+  private lowAmmoWarnedFor: string | null = null;
+
+  constructor(settings: AudioSettings) {
+    this.settings = settings;
+  }
+
+  unlock() {
+    if (!this.ctx) {
+      const ctx = new AudioContext();
+      this.ctx = ctx;
+      this.master = ctx.createGain();
+      this.master.connect(ctx.destination);
+      this.sfx = ctx.createGain();
+      this.sfx.connect(this.master);
+      this.music = ctx.createGain();
+      this.music.connect(this.master);
+
+      this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+      this.applySettings(this.settings);
+    }
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+  }
+
+  applySettings(settings: AudioSettings) {
+    this.settings = settings;
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    this.master!.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.02);
+    this.sfx!.gain.setTargetAtTime(settings.sfx, now, 0.02);
+    this.music!.gain.setTargetAtTime(settings.music, now, 0.02);
+  }
+
+  // Maps one step's simulation events to sounds
+  playEvents(events: SimulationEvent[], state: SimulationState) {
+    events.forEach(event => {
+      switch (event.type) {
+        case 'missileLaunched':
+          this.launch();
+          this.checkAmmo(state);
+          break;
+        case 'explosion':
+          if (event.cause === 'impact') this.impact();
+          else this.explosion(event.maxRadius);
+          break;
+        case 'cityDestroyed':
+        case 'turretDestroyed':
+          this.cityDestroyed();
+          break;
+        case 'cityShielded':
+          this.shieldHit();
+          break;
+        case 'crateCollected':
+          this.pickup();
+          break;
+        case 'specialUsed':
+          this.special(event.weapon);
+          break;
+        case 'waveComplete':
+          this.waveComplete();
+          break;
+        case 'gameOver':
+          this.stopDrone();
+          if (event.status === 'WON') this.victory();
+          else this.defeat();
+          break;
+      }
+    });
+  }
+
+  // --- Ambient drone ---
+
+  startDrone() {
+    const ctx = this.ctx;
+    if (!ctx || this.drone) return;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 200;
+    filter.Q.value = 4;
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.gain.setTargetAtTime(0.05, ctx.currentTime, 1);
+    filter.connect(gain);
+    gain.connect(this.music!);
+
+    const oscillators = [55, 55.4, 82.5].map(freq => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = freq;
+      osc.connect(filter);
+      osc.start();
+      return osc;
+    });
+    this.drone = { oscillators, filter, gain };
+  }
+
+  stopDrone() {
+    const ctx = this.ctx;
+    const drone = this.drone;
+    if (!ctx || !drone) return;
+    this.drone = null;
+    drone.gain.gain.setTargetAtTime(0, ctx.currentTime, 0.3);
+    drone.oscillators.forEach(osc => osc.stop(ctx.currentTime + 1.5));
+  }
+
+  // Opens the filter and raises the level as more enemies are in the air
+  setDroneIntensity(activeRockets: number) {
+    const ctx = this.ctx;
+    if (!ctx || !this.drone) return;
+    const intensity = Math.min(activeRockets, MAX_DRONE_ROCKETS) / MAX_DRONE_ROCKETS;
+    this.drone.filter.frequency.setTargetAtTime(200 + intensity * 1400, ctx.currentTime, 0.5);
+    this.drone.gain.gain.setTargetAtTime(0.05 + intensity * 0.12, ctx.currentTime, 0.5);
+  }
+
+  // --- Effects ---
+
+  private launch() {
+    this.tone({ type: 'square', from: 900, to: 220, duration: 0.15, volume: 0.08 });
+  }
+
+  // Bigger blasts are louder, longer and darker
+  private explosion(maxRadius: number) {
+    if (this.throttled('explosion')) return;
+    const size = maxRadius / 50;
+    this.noiseBurst({ duration: 0.3 + size * 0.4, cutoff: 2400 / size, volume: Math.min(0.5, 0.2 * size) });
+  }
+
+  private impact() {
+    if (this.throttled('impact')) return;
+    this.tone({ type: 'sine', from: 140, to: 40, duration: 0.35, volume: 0.4 });
+    this.noiseBurst({ duration: 0.25, cutoff: 600, volume: 0.25 });
+  }
+
+  private cityDestroyed() {
+    this.noiseBurst({ duration: 1.4, cutoff: 400, volume: 0.5 });
+    this.tone({ type: 'sawtooth', from: 220, to: 30, duration: 1.2, volume: 0.15 });
+  }
+
+  private shieldHit() {
+    this.tone({ type: 'sine', from: 1200, to: 600, duration: 0.3, volume: 0.15 });
+  }
+
+  private pickup() {
+    this.arpeggio([659.25, 987.77], 0.06, 'square');
+  }
+
+  // The EMP crackles; slow motion winds down
+  private special(weapon: SpecialWeapon) {
+    if (weapon === 'emp') {
+      this.noiseBurst({ duration: 0.6, cutoff: 6000, volume: 0.3 });
+      this.tone({ type: 'sawtooth', from: 120, to: 1800, duration: 0.4, volume: 0.12 });
+    } else {
+      this.tone({ type: 'triangle', from: 660, to: 110, duration: 0.9, volume: 0.15 });
+    }
+  }
+
+  private waveComplete() {
+    this.arpeggio([523.25, 659.25, 783.99, 1046.5], 0.09, 'triangle');
+  }
+
+  private checkAmmo(state: SimulationState) {
+    const key = `${state.seed}:${state.wave}`;
+    if (this.lowAmmoWarnedFor === key) return;
+    const living = state.turrets.filter(t => !t.destroyed);
+    const ammo = living.reduce((sum, t) => sum + t.ammo, 0);
+    const capacity = living.reduce((sum, t) => sum + t.maxAmmo, 0);
+    if (capacity === 0 || ammo > capacity * LOW_AMMO_RATIO) return;
+    this.lowAmmoWarnedFor = key;
+    this.tone({ type: 'square', from: 880, to: 880, duration: 0.08, volume: 0.1 });
+    this.tone({ type: 'square', from: 880, to: 880, duration: 0.08, volume: 0.1, delay: 0.14 });
+  }
+
+  private victory() {
+    this.arpeggio([392, 523.25, 659.25, 783.99, 1046.5], 0.14, 'triangle');
+  }
+
+  private defeat() {
+    this.arpeggio([392, 311.13, 261.63, 196], 0.25, 'sawtooth');
+  }
+
+  // --- Building blocks ---
+
+  // True when the sound played too recently (or audio is not unlocked yet)
+  private throttled(sound: 'explosion' | 'impact'): boolean {
+    const ctx = this.ctx;
+    if (!ctx || ctx.currentTime - (this.lastPlayedAt[sound] ?? -Infinity) < MIN_REPEAT_GAP_S) return true;
+    this.lastPlayedAt[sound] = ctx.currentTime;
+    return false;
+  }
+
+  private tone({ type, from, to, duration, volume, delay = 0 }: {
+    type: OscillatorType;
+    from: number;
+    to: number;
+    duration: number;
+    volume: number;
+    delay?: number;
+  }) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const start = ctx.currentTime + delay;
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    osc.connect(gain);
+    gain.connect(this.sfx!);
+    osc.start(start);
+    osc.stop(start + duration);
+  }
+
+  private noiseBurst({ duration, cutoff, volume }: { duration: number; cutoff: number; volume: number }) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const start = ctx.currentTime;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    source.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(cutoff, start);
+    filter.frequency.exponentialRampToValueAtTime(80, start + duration);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.sfx!);
+    source.start(start);
+    source.stop(start + duration);
+  }
+
+  private arpeggio(notes: number[], step: number, type: OscillatorType) {
+    notes.forEach((freq, i) => {
+      this.tone({ type, from: freq, to: freq, duration: step * 2, volume: 0.12, delay: i * step });
+    });
+  }
+}
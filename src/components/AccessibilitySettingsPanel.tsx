@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { GAME_SPEEDS, type AccessibilitySettings } from '../game/accessibility';
+import { PALETTES, type PaletteId } from '../game/palettes';
+
+export type AccessibilitySettingsLabels = {
+  accessibility: string;
+  palettes: Record<PaletteId, string>;
+  shapeCues: string;
+  reducedMotion: string;
+  gameSpeed: string;
+  gameSpeedHint: string;
+};
+
+type AccessibilitySettingsPanelProps = {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+  labels: AccessibilitySettingsLabels;
+};
+
+const optionClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-xs font-bold transition-all ${
+    active ? 'bg-emerald-500 text-black' : 'text-gray-400 hover:text-white hover:bg-white/5'
+  }`;
+
+const toggleClass = (active: boolean) =>
+  `px-4 py-2 rounded-full text-xs font-bold border transition-all ${
+    active ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+  }`;
+
+export default function AccessibilitySettingsPanel({ settings, onChange, labels }: AccessibilitySettingsPanelProps) {
+  const update = (e: React.MouseEvent, change: Partial<AccessibilitySettings>) => {
+    e.stopPropagation();
+    onChange({ ...settings, ...change });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{labels.accessibility}</span>
+      <div role="radiogroup" aria-label={labels.accessibility} className="flex flex-wrap justify-center gap-1 p-1 bg-white/5 rounded-full border border-white/10">
+        {(Object.keys(PALETTES) as PaletteId[]).map(id => (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={settings.palette === id}
+            onClick={e => update(e, { palette: id })}
+            className={optionClass(settings.palette === id)}
+          >
+            {labels.palettes[id]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-center items-center gap-2">
+        <button
+          aria-pressed={settings.shapeCues}
+          onClick={e => update(e, { shapeCues: !settings.shapeCues })}
+          className={toggleClass(settings.shapeCues)}
+        >
+          {labels.shapeCues}
+        </button>
+        <button
+          aria-pressed={settings.reducedMotion}
+          onClick={e => update(e, { reducedMotion: !settings.reducedMotion })}
+          className={toggleClass(settings.reducedMotion)}
+        >
+          {labels.reducedMotion}
+        </button>
+        <div role="radiogroup" aria-label={labels.gameSpeed} className="flex items-center gap-1 p-1 bg-white/5 rounded-full border border-white/10">
+          <span className="text-xs text-gray-500 px-2">{labels.gameSpeed}</span>
+          {GAME_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              role="radio"
+              aria-checked={settings.gameSpeed === speed}
+              onClick={e => update(e, { gameSpeed: speed })}
+              className={`font-mono ${optionClass(settings.gameSpeed === speed)}`}
+            >
+              {Math.round(speed * 100)}%
+            </button>
+          ))}
+        </div>
+      </div>
+      {settings.gameSpeed !== 1 && <span className="text-xs text-gray-500 max-w-sm">{labels.gameSpeedHint}</span>}
+    </div>
+  );
+}
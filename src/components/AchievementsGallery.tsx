@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { Award, Lock, X } from 'lucide-react';
+import { ACHIEVEMENTS, type AchievementId } from '../game/achievements';
+import type { AchievementRecords } from '../services/achievements';
+
+export type AchievementsGalleryLabels = {
+  title: string;
+  close: string;
+  names: Record<AchievementId, string>;
+  descriptions: Record<AchievementId, string>;
+  unlockedOn: (date: string) => string;
+};
+
+type AchievementsGalleryProps = {
+  records: AchievementRecords;
+  // BCP 47 language tag for unlock dates
+  locale: string;
+  labels: AchievementsGalleryLabels;
+  onClose: () => void;
+};
+
+export default function AchievementsGallery({ records, locale, labels, onClose }: AchievementsGalleryProps) {
+  const unlockedCount = ACHIEVEMENTS.filter(({ id }) => records[id].unlockedAt !== null).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="absolute inset-0 z-[55] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md max-h-full overflow-y-auto bg-[#0a0a0a] border border-white/10 rounded-2xl p-4"
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <Award className="w-5 h-5 text-yellow-400" />
+          <span className="font-bold">{labels.title}</span>
+          <span className="font-mono text-xs text-gray-500">{unlockedCount}/{ACHIEVEMENTS.length}</span>
+          <button
+            onClick={onClose}
+            title={labels.close}
+            className="ml-auto p-1.5 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <ul className="flex flex-col gap-2">
+          {ACHIEVEMENTS.map(({ id, target }) => {
+            const { progress, unlockedAt } = records[id];
+            return (
+              <li
+                key={id}
+                className={`flex items-start gap-3 rounded-xl border px-3 py-2 text-left ${
+                  unlockedAt ? 'border-yellow-400/40 bg-yellow-400/5' : 'border-white/10 bg-white/5'
+                }`}
+              >
+                {unlockedAt
+                  ? <Award className="w-5 h-5 mt-0.5 shrink-0 text-yellow-400" />
+                  : <Lock className="w-5 h-5 mt-0.5 shrink-0 text-gray-600" />}
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm font-bold ${unlockedAt ? 'text-white' : 'text-gray-400'}`}>{labels.names[id]}</div>
+                  <div className="text-xs text-gray-500">{labels.descriptions[id]}</div>
+                  {unlockedAt ? (
+                    <div className="text-[10px] font-mono text-yellow-400/70 mt-1">
+                      {labels.unlockedOn(new Date(unlockedAt).toLocaleDateString(locale))}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 mt-1">
+                      <div className="h-1 flex-1 rounded-full bg-white/10 overflow-hidden">
+                        <div className="h-full bg-emerald-400" style={{ width: `${(progress / target) * 100}%` }} />
+                      </div>
+                      <span className="text-[10px] font-mono text-gray-500">{progress}/{target}</span>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import type { AudioSettings } from '../audio/engine';
+
+export type AudioSettingsLabels = {
+  audio: string;
+  masterVolume: string;
+  sfxVolume: string;
+  musicVolume: string;
+};
+
+type AudioSettingsPanelProps = {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  labels: AudioSettingsLabels;
+};
+
+const CHANNELS: { key: 'master' | 'sfx' | 'music'; label: keyof AudioSettingsLabels }[] = [
+  { key: 'master', label: 'masterVolume' },
+  { key: 'sfx', label: 'sfxVolume' },
+  { key: 'music', label: 'musicVolume' },
+];
+
+export default function AudioSettingsPanel({ settings, onChange, labels }: AudioSettingsPanelProps) {
+  return (
+    <div className={`flex flex-col items-center gap-2 ${settings.muted ? 'opacity-50' : ''}`}>
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{labels.audio}</span>
+      {CHANNELS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-3 text-xs text-gray-400">
+          <span className="w-20 text-right">{labels[label]}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(settings[key] * 100)}
+            onChange={e => onChange({ ...settings, [key]: Number(e.target.value) / 100 })}
+            onClick={e => e.stopPropagation()}
+            className="w-36 accent-emerald-500"
+          />
+          <span className="w-8 font-mono text-left">{Math.round(settings[key] * 100)}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
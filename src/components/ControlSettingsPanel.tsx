@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Gamepad2 } from 'lucide-react';
+import type { ControlSettings, FireControl } from '../input/controls';
+
+export type ControlSettingsLabels = {
+  fireControl: string;
+  autoBattery: string;
+  manualBattery: string;
+  keyboardCrosshair: string;
+  controlsAuto: string;
+  controlsManual: string;
+  controlsCrosshair: string;
+  gamepadHint: string;
+};
+
+type ControlSettingsPanelProps = {
+  controls: ControlSettings;
+  onChange: (controls: ControlSettings) => void;
+  gamepadConnected: boolean;
+  labels: ControlSettingsLabels;
+};
+
+export default function ControlSettingsPanel({ controls, onChange, gamepadConnected, labels }: ControlSettingsPanelProps) {
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{labels.fireControl}</span>
+      <div className="flex items-center gap-2">
+        <div className="flex gap-2 p-1 bg-white/5 rounded-full border border-white/10">
+          {(['auto', 'manual'] as FireControl[]).map((mode) => (
+            <button
+              key={mode}
+              onClick={(e) => {
+                e.stopPropagation();
+                onChange({ ...controls, fireControl: mode });
+              }}
+              className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${
+                controls.fireControl === mode
+                  ? 'bg-emerald-500 text-black'
+                  : 'text-gray-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              {mode === 'auto' ? labels.autoBattery : labels.manualBattery}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onChange({ ...controls, keyboardCrosshair: !controls.keyboardCrosshair });
+          }}
+          className={`px-4 py-2 rounded-full text-xs font-bold border transition-all ${
+            controls.keyboardCrosshair
+              ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400'
+              : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+          }`}
+        >
+          {labels.keyboardCrosshair}
+        </button>
+      </div>
+      <span className="text-xs text-gray-500 max-w-sm">
+        {controls.fireControl === 'auto' ? labels.controlsAuto : labels.controlsManual}
+        {controls.keyboardCrosshair && ` ${labels.controlsCrosshair}`}
+      </span>
+      {gamepadConnected && (
+        <span className="text-xs text-emerald-400/80 max-w-sm flex items-center justify-center gap-1">
+          <Gamepad2 className="w-3 h-3" />
+          {labels.gamepadHint}
+        </span>
+      )}
+    </div>
+  );
+}
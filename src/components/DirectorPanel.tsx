@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { DIRECTOR_CONFIG, type DirectorState } from '../game/director';
+
+export type DirectorPanelLabels = {
+  director: string;
+  intensity: string;
+  targetBand: string;
+  wave: string;
+  accuracy: string;
+  ammoLeft: string;
+  citiesLost: string;
+  reaction: string;
+  performance: string;
+  nextWave: string;
+  toggleHint: string;
+};
+
+type DirectorPanelProps = {
+  director: DirectorState;
+  labels: DirectorPanelLabels;
+};
+
+// Most recent decisions shown; the full history is in the console log
+const VISIBLE_DECISIONS = 6;
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function DirectorPanel({ director, labels }: DirectorPanelProps) {
+  const [low, high] = DIRECTOR_CONFIG.targetBand;
+  const [minIntensity, maxIntensity] = DIRECTOR_CONFIG.intensity;
+  const decisions = director.history.slice(-VISIBLE_DECISIONS).reverse();
+
+  return (
+    <div className="absolute top-3 right-3 z-30 pointer-events-none bg-black/70 border border-white/10 rounded-lg px-3 py-2 font-mono text-[10px] leading-relaxed">
+      <div className="flex justify-between gap-4">
+        <span className="text-gray-500">{labels.director}</span>
+        <span className="text-emerald-400">
+          {labels.intensity} {director.intensity.toFixed(2)}
+          <span className="text-gray-600"> [{minIntensity}–{maxIntensity}]</span>
+        </span>
+      </div>
+      <div className="flex justify-between gap-4">
+        <span className="text-gray-500">{labels.targetBand}</span>
+        <span className="text-gray-400">{low.toFixed(2)}–{high.toFixed(2)}</span>
+      </div>
+      {decisions.length > 0 && (
+        <table className="mt-1 text-right">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="pr-2 font-normal">{labels.wave}</th>
+              <th className="pr-2 font-normal">{labels.accuracy}</th>
+              <th className="pr-2 font-normal">{labels.ammoLeft}</th>
+              <th className="pr-2 font-normal">{labels.citiesLost}</th>
+              <th className="pr-2 font-normal">{labels.reaction}</th>
+              <th className="pr-2 font-normal">{labels.performance}</th>
+              <th className="font-normal">{labels.nextWave}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {decisions.map(d => {
+              const inBand = d.performance >= low && d.performance <= high;
+              return (
+                <tr key={d.wave}>
+                  <td className="pr-2 text-gray-400">{d.wave}</td>
+                  <td className="pr-2">{pct(d.metrics.accuracy)}</td>
+                  <td className="pr-2">{pct(d.metrics.ammoLeft)}</td>
+                  <td className="pr-2">{d.metrics.citiesLost}</td>
+                  <td className="pr-2">{d.metrics.reactionMs === null ? '–' : `${(d.metrics.reactionMs / 1000).toFixed(1)}s`}</td>
+                  <td className={`pr-2 ${inBand ? 'text-emerald-400' : 'text-yellow-400'}`}>{d.performance.toFixed(2)}</td>
+                  <td className="text-gray-400">
+                    {d.next.enemies} / {d.next.spawnIntervalMs}ms / x{d.next.speedMultiplier.toFixed(2)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <div className="text-gray-600 mt-1">{labels.toggleHint}</div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import type { RenderQuality } from '../game/renderer';
+
+export type GraphicsSettingsLabels = {
+  graphics: string;
+  highQuality: string;
+  lowQuality: string;
+  lowQualityHint: string;
+};
+
+type GraphicsSettingsPanelProps = {
+  quality: RenderQuality;
+  onChange: (quality: RenderQuality) => void;
+  labels: GraphicsSettingsLabels;
+};
+
+export default function GraphicsSettingsPanel({ quality, onChange, labels }: GraphicsSettingsPanelProps) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{labels.graphics}</span>
+      <div className="flex gap-2 p-1 bg-white/5 rounded-full border border-white/10">
+        {(['high', 'low'] as RenderQuality[]).map(q => (
+          <button
+            key={q}
+            onClick={e => {
+              e.stopPropagation();
+              onChange(q);
+            }}
+            className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${
+              quality === q ? 'bg-emerald-500 text-black' : 'text-gray-400 hover:text-white hover:bg-white/5'
+            }`}
+          >
+            {q === 'high' ? labels.highQuality : labels.lowQuality}
+          </button>
+        ))}
+      </div>
+      {quality === 'low' && <span className="text-xs text-gray-500 max-w-sm">{labels.lowQualityHint}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Building2, Crosshair, Download, Eraser, FilePlus, Mountain, MousePointer2, Play, Trash2, Upload, X, type LucideIcon } from 'lucide-react';
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import {
+  AMMO_RANGE,
+  CITY_HALF_WIDTH,
+  DEFAULT_LAYOUT,
+  GROUND_HEIGHT,
+  GROUND_POINTS,
+  LayoutFormatError,
+  TURRET_HALF_WIDTH,
+  groundY,
+  labelTurrets,
+  parseLayout,
+  serializeLayout,
+  validateLayout,
+  type Layout,
+  type LayoutItem,
+  type LayoutProblem,
+} from '../game/layout';
+import type { Renderer } from '../game/renderer';
+import { createInitialState } from '../game/simulation';
+import { TURRET_ARCHETYPES } from '../game/turrets';
+import type { TurretArchetype } from '../game/types';
+import { downloadFile } from '../utils/download';
+
+// 'select' picks and drags items; the others place a turret or city, or raise
+// the ground control point under the pointer
+export type LayoutTool = 'select' | 'turret' | 'city' | 'ground';
+
+const TOOLS: [LayoutTool, LucideIcon][] = [
+  ['select', MousePointer2],
+  ['turret', Crosshair],
+  ['city', Building2],
+  ['ground', Mountain],
+];
+
+export type LayoutEditorLabels = {
+  title: string;
+  name: string;
+  tools: Record<LayoutTool, string>;
+  hint: string;
+  reset: string;
+  flatten: string;
+  load: string;
+  save: string;
+  play: string;
+  close: string;
+  type: string;
+  ammo: string;
+  remove: string;
+  archetypes: Record<TurretArchetype, string>;
+  city: (n: number) => string;
+  noTurrets: string;
+  outOfBounds: (item: string) => string;
+  overlap: (a: string, b: string) => string;
+  badAmmo: (item: string) => string;
+  badGround: string;
+};
+
+type LayoutEditorProps = {
+  initial: Layout;
+  rendererRef: React.RefObject<Renderer | null>;
+  labels: LayoutEditorLabels;
+  onPlay: (layout: Layout) => void;
+  onClose: () => void;
+};
+
+type Drag = LayoutItem | { type: 'ground' };
+
+const sameItem = (a: LayoutItem, b: LayoutItem | null) => b !== null && a.type === b.type && a.index === b.index;
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.max(min, Math.min(max, value));
+
+/**
+ * Places turrets and cities and shapes the ground over the game canvas. The
+ * canvas shows the layout as the game would start on it; an SVG on top takes
+ * the pointer input and outlines the items, in game coordinates.
+ */
+export default function LayoutEditor({ initial, rendererRef, labels, onPlay, onClose }: LayoutEditorProps) {
+  const [layout, setLayout] = useState<Layout>(initial);
+  const [tool, setTool] = useState<LayoutTool>('select');
+  const [selected, setSelected] = useState<LayoutItem | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const problems = useMemo(() => validateLayout(layout), [layout]);
+  // A loaded file can carry ground that cannot be drawn; it shows flat until fixed
+  const ground = problems.some(p => p.kind === 'ground') ? DEFAULT_LAYOUT.ground : layout.ground;
+
+  // Labels follow screen order, like in the game
+  const turretLabels = useMemo(() => {
+    const order = layout.turrets.map((_, i) => i).sort((a, b) => layout.turrets[a].x - layout.turrets[b].x);
+    const sorted = labelTurrets(order.map(i => layout.turrets[i].x));
+    const byIndex: string[] = [];
+    order.forEach((index, rank) => (byIndex[index] = sorted[rank]));
+    return byIndex;
+  }, [layout.turrets]);
+
+  const itemName = (item: LayoutItem) => (item.type === 'turret' ? turretLabels[item.index] : labels.city(item.index + 1));
+
+  const flagged = (item: LayoutItem) =>
+    problems.some(p => ('item' in p && sameItem(item, p.item)) || ('items' in p && p.items.some(other => sameItem(item, other))));
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    renderer.clearPopups();
+    renderer.render(createInitialState({ seed: 0, difficulty: 'NORMAL', layout: { ...layout, ground } }), performance.now());
+  }, [layout, ground, rendererRef]);
+
+  const removeSelected = () => {
+    if (!selected) return;
+    setLayout(l => selected.type === 'turret'
+      ? { ...l, turrets: l.turrets.filter((_, i) => i !== selected.index) }
+      : { ...l, cities: l.cities.filter((_, i) => i !== selected.index) });
+    setSelected(null);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        removeSelected();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selected]);
+
+  const toGameCoords = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * GAME_WIDTH) / rect.width,
+      y: ((e.clientY - rect.top) * GAME_HEIGHT) / rect.height,
+    };
+  };
+
+  const moveItem = (item: LayoutItem, x: number) => {
+    const clamped = Math.round(clamp(x, [0, GAME_WIDTH]));
+    setLayout(l => item.type === 'turret'
+      ? { ...l, turrets: l.turrets.map((t, i) => (i === item.index ? { ...t, x: clamped } : t)) }
+      : { ...l, cities: l.cities.map((c, i) => (i === item.index ? clamped : c)) });
+  };
+
+  // Sets the control point closest to x to the height under the pointer
+  const shapeGround = (x: number, y: number) => {
+    const index = Math.round(clamp(x / GAME_WIDTH, [0, 1]) * (GROUND_POINTS - 1));
+    const height = Math.round(clamp(GAME_HEIGHT - y, GROUND_HEIGHT));
+    setLayout(l => {
+      const current = l.ground.length === GROUND_POINTS ? l.ground : DEFAULT_LAYOUT.ground;
+      return { ...l, ground: current.map((h, i) => (i === index ? height : clamp(h, GROUND_HEIGHT))) };
+    });
+  };
+
+  const updateTurret = (index: number, change: Partial<Layout['turrets'][number]>) => {
+    setLayout(l => ({ ...l, turrets: l.turrets.map((t, i) => (i === index ? { ...t, ...change } : t)) }));
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    svgRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const { x, y } = toGameCoords(e);
+    if (tool === 'ground') {
+      startDrag(e, { type: 'ground' });
+      shapeGround(x, y);
+    } else if (tool === 'turret') {
+      const item: LayoutItem = { type: 'turret', index: layout.turrets.length };
+      setLayout(l => ({ ...l, turrets: [...l.turrets, { x: Math.round(x), archetype: 'standard', ammo: TURRET_ARCHETYPES.standard.ammo }] }));
+      setSelected(item);
+      startDrag(e, item);
+    } else if (tool === 'city') {
+      const item: LayoutItem = { type: 'city', index: layout.cities.length };
+      setLayout(l => ({ ...l, cities: [...l.cities, Math.round(x)] }));
+      setSelected(item);
+      startDrag(e, item);
+    } else {
+      setSelected(null);
+    }
+  };
+
+  const grabItem = (e: React.PointerEvent, item: LayoutItem) => {
+    e.stopPropagation();
+    setSelected(item);
+    startDrag(e, item);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toGameCoords(e);
+    if (drag.type === 'ground') shapeGround(x, y);
+    else moveItem(drag, x);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLayout(parseLayout(await file.text()));
+      setSelected(null);
+      setLoadError(null);
+    } catch (err) {
+      if (!(err instanceof LayoutFormatError)) throw err;
+      setLoadError(err.message);
+    }
+  };
+
+  const saveFile = () => {
+    const slug = layout.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'custom';
+    downloadFile(`nova-defense-layout-${slug}.json`, serializeLayout(layout), 'application/json');
+  };
+
+  const describe = (problem: LayoutProblem): string => {
+    switch (problem.kind) {
+      case 'noTurrets':
+        return labels.noTurrets;
+      case 'outOfBounds':
+        return labels.outOfBounds(itemName(problem.item));
+      case 'overlap':
+        return labels.overlap(itemName(problem.items[0]), itemName(problem.items[1]));
+      case 'ammo':
+        return labels.badAmmo(itemName(problem.item));
+      case 'ground':
+        return labels.badGround;
+    }
+  };
+
+  const outline = (item: LayoutItem) => {
+    if (sameItem(item, selected)) return { stroke: '#34d399', strokeDasharray: undefined };
+    if (flagged(item)) return { stroke: '#f87171', strokeDasharray: undefined };
+    return { stroke: 'rgba(255, 255, 255, 0.3)', strokeDasharray: '4 3' };
+  };
+
+  const selectedTurret = selected?.type === 'turret' ? layout.turrets[selected.index] : null;
+  const actionClass = 'p-2 hover:bg-white/10 rounded-full transition-colors';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-50"
+    >
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${GAME_WIDTH} ${GAME_HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`absolute inset-0 w-full h-full touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {layout.turrets.map((turret, index) => {
+          const item: LayoutItem = { type: 'turret', index };
+          const y = groundY(ground, turret.x);
+          return (
+            <g key={`turret-${index}`}>
+              <rect
+                x={turret.x - TURRET_HALF_WIDTH}
+                y={y - 30}
+                width={TURRET_HALF_WIDTH * 2}
+                height={30}
+                fill="transparent"
+                strokeWidth={1.5}
+                {...outline(item)}
+                style={{ pointerEvents: tool === 'select' ? 'all' : 'none', cursor: 'grab' }}
+                onPointerDown={e => grabItem(e, item)}
+              />
+              <text x={turret.x} y={y - 36} textAnchor="middle" fontSize={10} fill="#9ca3af" fontFamily="monospace" pointerEvents="none">
+                {turretLabels[index]} · {turret.ammo}
+              </text>
+            </g>
+          );
+        })}
+        {layout.cities.map((x, index) => {
+          const item: LayoutItem = { type: 'city', index };
+          const y = groundY(ground, x);
+          return (
+            <rect
+              key={`city-${index}`}
+              x={x - CITY_HALF_WIDTH}
+              y={y - 27}
+              width={CITY_HALF_WIDTH * 2}
+              height={27}
+              fill="transparent"
+              strokeWidth={1.5}
+              {...outline(item)}
+              style={{ pointerEvents: tool === 'select' ? 'all' : 'none', cursor: 'grab' }}
+              onPointerDown={e => grabItem(e, item)}
+            />
+          );
+        })}
+        {tool === 'ground' && ground.map((height, i) => (
+          <circle
+            key={`ground-${i}`}
+            cx={(i / (ground.length - 1)) * GAME_WIDTH}
+            cy={GAME_HEIGHT - height}
+            r={4}
+            fill="#34d399"
+            pointerEvents="none"
+          />
+        ))}
+      </svg>
+
+      <div className="absolute top-3 inset-x-3 flex flex-col items-start gap-2 pointer-events-none">
+        <div className="pointer-events-auto w-full flex flex-wrap items-center gap-2 bg-black/80 backdrop-blur-sm border border-white/10 rounded-2xl p-2">
+          <span className="text-xs font-bold uppercase tracking-widest text-gray-400 px-2">{labels.title}</span>
+          <div className="flex gap-1 p-1 bg-white/5 rounded-full border border-white/10">
+            {TOOLS.map(([id, Icon]) => (
+              <button
+                key={id}
+                onClick={() => setTool(id)}
+                title={labels.tools[id]}
+                className={`px-3 py-1 rounded-full text-xs font-bold flex items-center gap-1 transition-all ${
+                  tool === id ? 'bg-emerald-500 text-black' : 'text-gray-400 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {labels.tools[id]}
+              </button>
+            ))}
+          </div>
+          <input
+            value={layout.name}
+            onChange={e => setLayout(l => ({ ...l, name: e.target.value }))}
+            placeholder={labels.name}
+            aria-label={labels.name}
+            className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-xs w-28 outline-none focus:border-emerald-500"
+          />
+          <div className="flex items-center ml-auto">
+            <button
+              onClick={() => {
+                setLayout(DEFAULT_LAYOUT);
+                setSelected(null);
+              }}
+              title={labels.reset}
+              className={actionClass}
+            >
+              <FilePlus className="w-4 h-4" />
+            </button>
+            <button onClick={() => setLayout(l => ({ ...l, ground: [...DEFAULT_LAYOUT.ground] }))} title={labels.flatten} className={actionClass}>
+              <Eraser className="w-4 h-4" />
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} title={labels.load} className={actionClass}>
+              <Upload className="w-4 h-4" />
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={loadFile} className="hidden" />
+            <button onClick={saveFile} title={labels.save} className={actionClass}>
+              <Download className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onPlay(layout)}
+              disabled={problems.length > 0}
+              className="ml-1 px-4 py-1.5 bg-emerald-500 hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 text-black text-xs font-bold rounded-full flex items-center gap-1 transition-colors"
+            >
+              <Play className="w-3.5 h-3.5" />
+              {labels.play}
+            </button>
+            <button onClick={onClose} title={labels.close} className={actionClass}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="pointer-events-auto max-w-sm bg-black/80 backdrop-blur-sm border border-white/10 rounded-2xl p-3 flex flex-col gap-2 text-xs text-left">
+          {selected ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono font-bold text-white">{itemName(selected)}</span>
+              {selectedTurret && (
+                <>
+                  <select
+                    value={selectedTurret.archetype}
+                    aria-label={labels.type}
+                    onChange={e => {
+                      const archetype = e.target.value as TurretArchetype;
+                      // A new type starts from its own magazine size
+                      updateTurret(selected.index, { archetype, ammo: TURRET_ARCHETYPES[archetype].ammo });
+                    }}
+                    className="bg-white/5 border border-white/10 rounded-full px-2 py-1 outline-none"
+                  >
+                    {(Object.keys(TURRET_ARCHETYPES) as TurretArchetype[]).map(archetype => (
+                      <option key={archetype} value={archetype} className="bg-[#0a0a0a]">
+                        {labels.archetypes[archetype]}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1 text-gray-400">
+                    {labels.ammo}
+                    <input
+                      type="number"
+                      min={AMMO_RANGE[0]}
+                      max={AMMO_RANGE[1]}
+                      step={1}
+                      value={selectedTurret.ammo}
+                      onChange={e => updateTurret(selected.index, { ammo: Number.isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber })}
+                      className="w-14 bg-white/5 border border-white/10 rounded-full px-2 py-1 font-mono text-white outline-none"
+                    />
+                  </label>
+                </>
+              )}
+              <button
+                onClick={removeSelected}
+                className="ml-auto px-2 py-1 rounded-full text-red-400 hover:bg-red-500/10 flex items-center gap-1 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                {labels.remove}
+              </button>
+            </div>
+          ) : (
+            <span className="text-gray-400">{labels.hint}</span>
+          )}
+          {problems.length > 0 && (
+            <ul className="flex flex-col gap-0.5 text-red-400">
+              {problems.map((problem, i) => (
+                <li key={i}>{describe(problem)}</li>
+              ))}
+            </ul>
+          )}
+          {loadError && <span className="text-red-400">{loadError}</span>}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Send, WifiOff } from 'lucide-react';
+import type { Difficulty } from '../game/types';
+import {
+  MAX_NAME_LENGTH,
+  fetchLeaderboard,
+  loadPlayerName,
+  savePlayerName,
+  submitScore,
+  type LeaderboardResult,
+  type LeaderboardScope,
+  type SubmitResult,
+} from '../services/leaderboard';
+
+type LeaderboardProps = {
+  difficulty: Difficulty;
+  score: number;
+  wave: number;
+  durationMs: number;
+  labels: {
+    enterName: string;
+    submit: string;
+    allTime: string;
+    today: string;
+    offline: string;
+    yourRank: string;
+    wave: string;
+  };
+};
+
+export default function Leaderboard({ difficulty, score, wave, durationMs, labels }: LeaderboardProps) {
+  const [name, setName] = useState(loadPlayerName);
+  const [scope, setScope] = useState<LeaderboardScope>('all');
+  const [submitted, setSubmitted] = useState<SubmitResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [board, setBoard] = useState<LeaderboardResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLeaderboard(difficulty, scope).then(result => {
+      if (!cancelled) setBoard(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [difficulty, scope, submitted]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || submitting || submitted) return;
+    setSubmitting(true);
+    savePlayerName(trimmed);
+    setSubmitted(await submitScore({ name: trimmed, difficulty, score, wave, durationMs }));
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="w-full max-w-sm mt-6 text-left">
+      {submitted ? (
+        <div className="text-sm text-emerald-400 font-mono mb-2 text-center">
+          {labels.yourRank}: #{submitted.rank}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-3">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            placeholder={labels.enterName}
+            className="flex-1 bg-white/5 border border-white/10 rounded-full px-4 py-1.5 text-sm outline-none focus:border-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || submitting}
+            className="px-4 py-1.5 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-40 text-black font-bold rounded-full text-sm flex items-center gap-1 transition-colors"
+          >
+            <Send className="w-3 h-3" />
+            {labels.submit}
+          </button>
+        </form>
+      )}
+
+      <div className="flex items-center gap-2 mb-2">
+        <div className="flex gap-1 p-0.5 bg-white/5 rounded-full border border-white/10">
+          {(['all', 'today'] as LeaderboardScope[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`px-3 py-0.5 rounded-full text-xs font-bold transition-all ${
+                scope === s ? 'bg-white text-black' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {s === 'all' ? labels.allTime : labels.today}
+            </button>
+          ))}
+        </div>
+        {board?.offline && (
+          <span className="ml-auto flex items-center gap-1 text-xs text-yellow-400">
+            <WifiOff className="w-3 h-3" />
+            {labels.offline}
+          </span>
+        )}
+      </div>
+
+      <ol className="font-mono text-xs divide-y divide-white/5 border border-white/10 rounded-xl overflow-hidden">
+        {board?.entries.map(entry => (
+          <li key={entry.id} className="flex gap-3 px-3 py-1 bg-white/[0.02]">
+            <span className="w-6 text-gray-500">{entry.rank}</span>
+            <span className="flex-1 truncate">{entry.name}</span>
+            <span className="text-gray-500">{labels.wave} {entry.wave}</span>
+            <span className="w-14 text-right text-emerald-400">{entry.score}</span>
+          </li>
+        ))}
+        {board && board.entries.length === 0 && (
+          <li className="px-3 py-2 text-center text-gray-500">—</li>
+        )}
+      </ol>
+    </div>
+  );
+}
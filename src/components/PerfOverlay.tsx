@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+
+// Averages over the last sampling window
+export type PerfStats = {
+  fps: number;
+  frameMs: number;
+  // Time spent stepping and drawing, excluding the browser's own work
+  workMs: number;
+  rockets: number;
+  aircraft: number;
+  missiles: number;
+  explosions: number;
+  collisionChecks: number;
+};
+
+type PerfOverlayProps = {
+  stats: PerfStats;
+  labels: { frame: string; work: string; entities: string; collisionChecks: string; toggleHint: string };
+};
+
+export default function PerfOverlay({ stats, labels }: PerfOverlayProps) {
+  const rows: [string, string][] = [
+    ['FPS', stats.fps.toFixed(0)],
+    [labels.frame, `${stats.frameMs.toFixed(1)} ms`],
+    [labels.work, `${stats.workMs.toFixed(2)} ms`],
+    [labels.entities, `${stats.rockets} / ${stats.aircraft} / ${stats.missiles} / ${stats.explosions}`],
+    [labels.collisionChecks, stats.collisionChecks.toFixed(0)],
+  ];
+
+  return (
+    <div className="absolute top-3 left-3 z-30 pointer-events-none bg-black/70 border border-white/10 rounded-lg px-3 py-2 font-mono text-[10px] leading-relaxed">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-gray-500">{label}</span>
+          <span className={label === 'FPS' && stats.fps < 55 ? 'text-yellow-400' : 'text-emerald-400'}>{value}</span>
+        </div>
+      ))}
+      <div className="text-gray-600 mt-1">{labels.toggleHint}</div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Pause, Play, X } from 'lucide-react';
+import { FIXED_STEP_MS, MAX_FRAME_MS } from '../game/constants';
+import type { Renderer } from '../game/renderer';
+import { ReplayPlayer, type Replay } from '../game/replay';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+type ReplayViewerProps = {
+  replay: Replay;
+  rendererRef: React.RefObject<Renderer | null>;
+  labels: { replay: string; wave: string; score: string; close: string };
+  onClose: () => void;
+};
+
+export default function ReplayViewer({ replay, rendererRef, labels, onClose }: ReplayViewerProps) {
+  const player = useMemo(() => new ReplayPlayer(replay), [replay]);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const [wave, setWave] = useState(1);
+  const [score, setScore] = useState(0);
+
+  const playingRef = useRef(true);
+  const speedRef = useRef(1);
+  const accumulatorRef = useRef(0);
+
+  useEffect(() => {
+    playingRef.current = playing;
+  }, [playing]);
+
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+
+    let lastTime = performance.now();
+    const loop = (time: number) => {
+      const dt = Math.min(time - lastTime, MAX_FRAME_MS);
+      lastTime = time;
+
+      if (playingRef.current) {
+        accumulatorRef.current += dt * speedRef.current;
+        while (accumulatorRef.current >= FIXED_STEP_MS && !player.isFinished) {
+          renderer.addPopups(player.step(), time);
+          accumulatorRef.current -= FIXED_STEP_MS;
+        }
+        if (player.isFinished) setPlaying(false);
+      }
+
+      const state = player.sim.state;
+      setTick(state.tick);
+      setWave(state.wave);
+      setScore(state.score);
+      renderer.render(state, time);
+
+      frameId = requestAnimationFrame(loop);
+    };
+
+    let frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [player, rendererRef]);
+
+  const seekToWave = (w: number) => {
+    player.seekToWave(w);
+    rendererRef.current?.clearPopups();
+    accumulatorRef.current = 0;
+    setPlaying(true);
+  };
+
+  const togglePlaying = () => {
+    if (!playing && player.isFinished) player.seekToWave(1);
+    setPlaying(p => !p);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="absolute inset-x-4 bottom-4 z-50 bg-black/80 backdrop-blur-sm border border-white/10 rounded-2xl p-3 flex flex-col gap-2"
+    >
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          className="p-2 bg-emerald-500 hover:bg-emerald-400 text-black rounded-full transition-colors"
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <div className="flex gap-1 p-1 bg-white/5 rounded-full border border-white/10">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-3 py-1 rounded-full text-xs font-bold font-mono transition-all ${
+                speed === s ? 'bg-emerald-500 text-black' : 'text-gray-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+        <span className="font-mono text-xs text-gray-400 ml-auto">
+          {labels.replay} · {labels.wave}: {wave} · {labels.score}: {score}
+        </span>
+        <button
+          onClick={onClose}
+          title={labels.close}
+          className="p-2 hover:bg-white/10 rounded-full transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="h-1 w-full rounded-full bg-white/10 overflow-hidden">
+        <div
+          className="h-full bg-emerald-400"
+          style={{ width: `${Math.min(100, (tick / Math.max(1, replay.endTick)) * 100)}%` }}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {player.waveStarts.map((_, i) => (
+          <button
+            key={i}
+            onClick={() => seekToWave(i + 1)}
+            className={`px-2 py-0.5 rounded-full text-xs font-mono transition-all ${
+              wave === i + 1 ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:text-white hover:bg-white/10'
+            }`}
+          >
+            {labels.wave} {i + 1}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
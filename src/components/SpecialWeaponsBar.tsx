@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Hourglass, Shield, Zap, type LucideIcon } from 'lucide-react';
+import { SUPPLY_COLORS } from '../game/render';
+import { SPECIAL_WEAPONS } from '../game/supplies';
+import type { SpecialWeapon, SpecialWeaponState } from '../game/types';
+
+// What the bar shows, rounded so the HUD only re-renders when it visibly changes
+export type SpecialWeaponsHud = {
+  specials: Record<SpecialWeapon, SpecialWeaponState>;
+  shieldMs: number;
+  slowMoMs: number;
+};
+
+export type SpecialWeaponsLabels = {
+  names: Record<SpecialWeapon, string>;
+  shield: string;
+  // Accessible name of a weapon's button
+  describe: (weapon: SpecialWeapon, charges: number, key: string) => string;
+};
+
+type SpecialWeaponsBarProps = {
+  hud: SpecialWeaponsHud;
+  hotkeys: Record<SpecialWeapon, string>;
+  onUse: (weapon: SpecialWeapon) => void;
+  labels: SpecialWeaponsLabels;
+};
+
+const ICONS: Record<SpecialWeapon, LucideIcon> = { emp: Zap, slowMo: Hourglass };
+
+const seconds = (ms: number) => `${Math.ceil(ms / 1000)}s`;
+
+export default function SpecialWeaponsBar({ hud, hotkeys, onUse, labels }: SpecialWeaponsBarProps) {
+  return (
+    <div className="absolute bottom-16 left-0 right-0 flex justify-center gap-2 pointer-events-none">
+      {(Object.keys(SPECIAL_WEAPONS) as SpecialWeapon[]).map(weapon => {
+        const { charges, cooldownMs } = hud.specials[weapon];
+        const Icon = ICONS[weapon];
+        const active = weapon === 'slowMo' && hud.slowMoMs > 0;
+        return (
+          <button
+            key={weapon}
+            disabled={charges === 0 || cooldownMs > 0}
+            onClick={e => {
+              e.stopPropagation();
+              onUse(weapon);
+            }}
+            aria-label={labels.describe(weapon, charges, hotkeys[weapon].toUpperCase())}
+            title={labels.names[weapon]}
+            className="pointer-events-auto relative overflow-hidden flex items-center gap-1.5 px-2.5 py-1 rounded-full border bg-black/60 disabled:opacity-50 transition-opacity"
+            style={{ borderColor: SUPPLY_COLORS[weapon] }}
+          >
+            {/* Drains as the weapon cools down */}
+            {cooldownMs > 0 && (
+              <span
+                className="absolute inset-y-0 left-0 bg-white/15"
+                style={{ width: `${(cooldownMs / SPECIAL_WEAPONS[weapon].cooldownMs) * 100}%` }}
+              />
+            )}
+            <Icon className="relative w-3.5 h-3.5" style={{ color: SUPPLY_COLORS[weapon] }} />
+            <span className="relative font-mono text-[10px] text-white">×{charges}</span>
+            {(active || cooldownMs > 0) && (
+              <span className="relative font-mono text-[10px] text-gray-400">{seconds(active ? hud.slowMoMs : cooldownMs)}</span>
+            )}
+            <kbd className="relative font-mono text-[10px] text-gray-500 uppercase">{hotkeys[weapon]}</kbd>
+          </button>
+        );
+      })}
+      {hud.shieldMs > 0 && (
+        <div
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border bg-black/60"
+          style={{ borderColor: SUPPLY_COLORS.shield }}
+        >
+          <Shield className="w-3.5 h-3.5" style={{ color: SUPPLY_COLORS.shield }} />
+          <span className="font-mono text-[10px] text-white">{labels.shield}</span>
+          <span className="font-mono text-[10px] text-gray-400">{seconds(hud.shieldMs)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
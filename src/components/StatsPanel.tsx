@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { summarizeStats, type GameStats } from '../game/stats';
+
+export type StatsPanelLabels = {
+  title: string;
+  shots: string;
+  hits: string;
+  accuracy: string;
+  kills: string;
+  longestChain: string;
+  landed: string;
+  time: string;
+  perWave: string;
+  wave: string;
+};
+
+type StatsPanelProps = {
+  stats: GameStats;
+  turretLabels: string[];
+  labels: StatsPanelLabels;
+};
+
+const CHART_HEIGHT = 80;
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function StatsPanel({ stats, turretLabels, labels }: StatsPanelProps) {
+  const summary = summarizeStats(stats);
+  const tiles: [string, string][] = [
+    [labels.shots, String(summary.shots)],
+    [labels.hits, String(summary.hits)],
+    [labels.accuracy, pct(summary.accuracy)],
+    [labels.kills, String(summary.kills)],
+    [labels.longestChain, String(summary.longestChain)],
+    [labels.landed, String(summary.landed)],
+    [labels.time, formatDuration(summary.durationMs)],
+  ];
+  const maxKills = Math.max(1, ...stats.waves.map(w => Math.max(w.kills, w.landed)));
+
+  return (
+    <div className="w-full max-w-xl bg-white/5 border border-white/10 rounded-2xl p-4 mb-6 text-left">
+      <div className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-3">{labels.title}</div>
+
+      <div className="grid grid-cols-4 sm:grid-cols-7 gap-2 mb-4">
+        {tiles.map(([label, value]) => (
+          <div key={label} className="flex flex-col items-center">
+            <span className="font-mono text-lg text-white">{value}</span>
+            <span className="text-[10px] text-gray-500 text-center leading-tight">{label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between gap-2 mb-4 font-mono text-[10px]">
+        {stats.turrets.map((turret, id) => (
+          <div key={id} className="flex-1 bg-black/30 rounded-lg px-2 py-1 text-center">
+            <div className="text-gray-400">{turretLabels[id]}</div>
+            <div className="text-emerald-400">{turret.hits}/{turret.shots}</div>
+            <div className="text-gray-500">{turret.shots > 0 ? pct(turret.hits / turret.shots) : '–'}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] text-gray-500 mb-1">
+        <span>{labels.perWave}</span>
+        <span className="flex gap-3">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 bg-emerald-500 rounded-sm" />{labels.kills}</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-500 rounded-sm" />{labels.landed}</span>
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${stats.waves.length * 10} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 bg-black/30 rounded-lg"
+      >
+        {stats.waves.map((w, i) => {
+          const killHeight = (w.kills / maxKills) * (CHART_HEIGHT - 4);
+          const landedHeight = (w.landed / maxKills) * (CHART_HEIGHT - 4);
+          return (
+            <g key={w.wave}>
+              <title>
+                {`${labels.wave} ${w.wave}: ${labels.kills} ${w.kills}, ${labels.landed} ${w.landed}, `
+                  + `${labels.accuracy} ${w.shots > 0 ? pct(w.hits / w.shots) : '–'}, ${formatDuration(w.durationMs)}`}
+              </title>
+              <rect x={i * 10 + 1} y={CHART_HEIGHT - killHeight} width={4} height={killHeight} fill="#10b981" />
+              <rect x={i * 10 + 5} y={CHART_HEIGHT - landedHeight} width={4} height={landedHeight} fill="#ef4444" />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-600 font-mono mt-1">
+        <span>{stats.waves[0].wave}</span>
+        <span>{stats.waves[stats.waves.length - 1].wave}</span>
+      </div>
+    </div>
+  );
+}
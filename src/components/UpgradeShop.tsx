@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { Building2, ChevronRight, Crosshair, Gauge, Package, Wrench } from 'lucide-react';
+import { UPGRADE_COLORS } from '../game/render';
+import { UPGRADES, checkPurchase, upgradePrice } from '../game/shop';
+import type { SimulationState, TurretUpgrade, UpgradeKind } from '../game/types';
+
+export type UpgradeShopLabels = {
+  shopTitle: string;
+  shopHint: string;
+  points: string;
+  repair: string;
+  rebuild: string;
+  upgradeAmmo: string;
+  upgradeSpeed: string;
+  upgradeBlast: string;
+  maxed: string;
+  cities: string;
+  citiesIntact: string;
+  continueWave: string;
+};
+
+type UpgradeShopProps = {
+  state: SimulationState;
+  onBuy: (upgrade: UpgradeKind, targetId: number) => void;
+  onContinue: () => void;
+  labels: UpgradeShopLabels;
+};
+
+const TURRET_UPGRADES: { kind: TurretUpgrade; icon: typeof Package; label: keyof UpgradeShopLabels }[] = [
+  { kind: 'ammo', icon: Package, label: 'upgradeAmmo' },
+  { kind: 'speed', icon: Gauge, label: 'upgradeSpeed' },
+  { kind: 'blast', icon: Crosshair, label: 'upgradeBlast' },
+];
+
+export default function UpgradeShop({ state, onBuy, onContinue, labels }: UpgradeShopProps) {
+  const buyButton = (kind: UpgradeKind, targetId: number, content: React.ReactNode) => {
+    const check = checkPurchase(state, kind, targetId);
+    const maxed = 'reason' in check && check.reason === 'maxed';
+    return (
+      <button
+        onClick={() => onBuy(kind, targetId)}
+        disabled={!check.ok}
+        className="w-full px-2 py-1 bg-white/5 border border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5 rounded-lg text-xs flex items-center justify-between gap-1 transition-colors"
+      >
+        {content}
+        <span className="font-mono text-yellow-400">{maxed ? labels.maxed : upgradePrice(state, kind)}</span>
+      </button>
+    );
+  };
+
+  const destroyedCities = state.cities.filter(c => c.destroyed);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/85 backdrop-blur-sm flex flex-col items-center justify-center-safe p-6 text-center z-50 overflow-y-auto"
+    >
+      <h2 className="text-3xl font-bold italic font-serif">{labels.shopTitle}</h2>
+      <p className="text-xs text-gray-500 mt-1">{labels.shopHint}</p>
+      <div className="font-mono text-lg text-yellow-400 mt-3 mb-5">
+        {labels.points}: {state.score}
+      </div>
+
+      <div className="grid grid-cols-5 gap-2 w-full max-w-2xl">
+        {state.turrets.map(turret => (
+          <div key={turret.id} className="bg-white/5 border border-white/10 rounded-xl p-2 flex flex-col gap-1.5">
+            <div className="flex items-center justify-between">
+              <span className="font-bold text-sm">{turret.label}</span>
+              <span className={`font-mono text-[10px] ${turret.destroyed ? 'text-red-400' : 'text-gray-400'}`}>
+                {turret.ammo}/{turret.maxAmmo}
+              </span>
+            </div>
+            {turret.destroyed
+              ? buyButton('repairTurret', turret.id, (
+                <span className="flex items-center gap-1"><Wrench className="w-3 h-3" />{labels.repair}</span>
+              ))
+              : TURRET_UPGRADES.map(({ kind, icon: Icon, label }) => (
+                <div key={kind}>
+                  {buyButton(kind, turret.id, (
+                    <span className="flex items-center gap-1" title={labels[label]}>
+                      <Icon className="w-3 h-3" style={{ color: UPGRADE_COLORS[kind] }} />
+                      {turret.upgrades[kind]}/{UPGRADES[kind].maxLevel}
+                    </span>
+                  ))}
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3 mt-3 text-[10px] text-gray-500">
+        {TURRET_UPGRADES.map(({ kind, label }) => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: UPGRADE_COLORS[kind] }} />
+            {labels[label]}
+          </span>
+        ))}
+      </div>
+
+      <div className="w-full max-w-2xl mt-4 text-left">
+        <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{labels.cities}</span>
+        <div className="flex gap-2 mt-2">
+          {destroyedCities.length === 0 ? (
+            <span className="text-xs text-emerald-400">{labels.citiesIntact}</span>
+          ) : destroyedCities.map(city => (
+            <div key={city.id} className="w-32">
+              {buyButton('rebuildCity', city.id, (
+                <span className="flex items-center gap-1"><Building2 className="w-3 h-3" />{labels.rebuild}</span>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={onContinue}
+        className="mt-6 px-10 py-3 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95 flex items-center gap-2"
+      >
+        {labels.continueWave}
+        <ChevronRight className="w-5 h-5" />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PALETTES, type PaletteId } from './palettes';
+
+export type AccessibilitySettings = {
+  palette: PaletteId;
+  // Marks enemies, interceptors and ruins with shapes as well as colors
+  shapeCues: boolean;
+  // Steady explosions and animations instead of flashes, pulses and slides
+  reducedMotion: boolean;
+  // Multiplies how fast simulation time passes; the simulation itself is unchanged
+  gameSpeed: number;
+};
+
+export const GAME_SPEEDS = [0.5, 0.75, 1];
+
+const SETTINGS_KEY = 'nova-defense:accessibility';
+
+function prefersReducedMotion(): boolean {
+  return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+}
+
+function readSaved(): Record<string, unknown> {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return typeof saved === 'object' && saved !== null ? (saved as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Reduced motion starts out following the system setting. Each stored field
+// that is missing or not an allowed value falls back to its default on its own.
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  const saved = readSaved();
+  return {
+    palette: typeof saved.palette === 'string' && Object.hasOwn(PALETTES, saved.palette) ? (saved.palette as PaletteId) : 'default',
+    shapeCues: typeof saved.shapeCues === 'boolean' ? saved.shapeCues : false,
+    reducedMotion: typeof saved.reducedMotion === 'boolean' ? saved.reducedMotion : prefersReducedMotion(),
+    gameSpeed: GAME_SPEEDS.includes(saved.gameSpeed as number) ? (saved.gameSpeed as number) : 1,
+  };
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { batteryGroup } from '../input/controls';
+import type { SimulationEvent, SimulationState } from './types';
+
+export type AchievementId = 'flawlessWave' | 'chainReaction' | 'hardWin' | 'centerOnly' | 'wave20';
+
+// Progress is the best value reached in any run; the achievement unlocks once it reaches `target`
+export type Achievement = { id: AchievementId; target: number };
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'flawlessWave', target: 1 },
+  { id: 'chainReaction', target: 10 },
+  { id: 'hardWin', target: 1 },
+  { id: 'centerOnly', target: 1 },
+  { id: 'wave20', target: 20 },
+];
+
+export type AchievementProgress = Partial<Record<AchievementId, number>>;
+
+// What the current run has done so far, for the achievements that look at a whole wave
+export type AchievementRun = {
+  // False when the run was resumed mid-wave, until the next wave starts
+  waveTracked: boolean;
+  cityLost: boolean;
+  centerShots: number;
+  otherShots: number;
+  longestChain: number;
+};
+
+export function createAchievementRun(state: SimulationState): AchievementRun {
+  return { waveTracked: state.tick === 0, cityLost: false, centerShots: 0, otherShots: 0, longestChain: 0 };
+}
+
+// Folds one step's events into the run. Returns the progress made in this step, if any.
+export function trackAchievements(
+  run: AchievementRun,
+  events: SimulationEvent[],
+  state: SimulationState,
+): AchievementProgress | null {
+  // Nothing can be lost in the stress test, and an editor layout can make any goal trivial
+  if (state.mode === 'swarm' || state.layout) return null;
+
+  let progress: AchievementProgress | null = null;
+  const report = (id: AchievementId, value: number) => {
+    progress = { ...progress, [id]: Math.max(progress?.[id] ?? 0, value) };
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'missileLaunched':
+        if (batteryGroup(state.turrets, 'center').includes(event.turretId)) run.centerShots++;
+        else run.otherShots++;
+        break;
+      case 'rocketDestroyed':
+      case 'aircraftDestroyed':
+        if (event.chain > run.longestChain) {
+          run.longestChain = event.chain;
+          report('chainReaction', event.chain);
+        }
+        break;
+      case 'cityDestroyed':
+        run.cityLost = true;
+        break;
+      case 'waveComplete':
+        if (!run.waveTracked) break;
+        if (!run.cityLost) report('flawlessWave', 1);
+        if (run.centerShots > 0 && run.otherShots === 0) report('centerOnly', 1);
+        break;
+      case 'waveStarted':
+        Object.assign(run, { waveTracked: true, cityLost: false, centerShots: 0, otherShots: 0 });
+        report('wave20', event.wave);
+        break;
+      case 'gameOver':
+        if (event.status === 'WON' && state.mode === 'classic' && state.difficulty === 'HARD' && !state.director) {
+          report('hardWin', 1);
+        }
+        break;
+    }
+  }
+  return progress;
+}
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_WIDTH } from './constants';
+import { groundY, structureAt } from './layout';
+import { blastRadiusFor, checkPurchase, missileSpeedFor } from './shop';
+import { CRATE_FALL_SPEED, EMP_CEILING, enemyTimeScale } from './supplies';
+import { pathPoint } from './trajectories';
+import { TURRET_ARCHETYPES, inRange } from './turrets';
+import type { PlayerCommand, Rocket, SimulationState, SpecialWeapon, Turret, UpgradeKind, Wind } from './types';
+
+export type AutopilotOptions = {
+  // Steps between decisions, standing in for a player's reaction time
+  thinkEverySteps: number;
+  // Share of the score the bot keeps when shopping, so purchases do not push a win out of reach
+  scoreReserve: number;
+  // Below this share of the total ammo left, only rockets heading for something still standing are shot at
+  conserveAmmoBelow: number;
+};
+
+export const DEFAULT_AUTOPILOT: AutopilotOptions = {
+  thinkEverySteps: 4,
+  scoreReserve: 0.5,
+  conserveAmmoBelow: 0.3,
+};
+
+// Tried in order, one purchase per decision, until nothing more is affordable
+const SHOPPING_LIST: UpgradeKind[] = ['repairTurret', 'rebuildCity', 'blast', 'speed', 'ammo'];
+
+// Special weapons are saved for crowded skies
+const EMP_MIN_ROCKETS = 5;
+const SLOW_MO_MIN_ROCKETS = 8;
+
+// Where an interceptor would detonate and when, counted in steps from now
+type Shot = { x: number; y: number; radius: number; inSteps: number };
+
+type Target = {
+  // Position `steps` from now, or null when it will be gone (landed, split or off screen) by then
+  predict: (steps: number) => { x: number; y: number } | null;
+  stepsLeft: number;
+  threat: boolean;
+};
+
+/**
+ * A scripted player. It sees exactly what a player sees (the simulation
+ * state) and answers with the same commands, so it can drive a live game,
+ * the attract mode behind the start screen or headless balance runs.
+ *
+ * Aiming leads each rocket by the interceptor's flight time: rockets and
+ * missiles both move a fixed share of their path per step, so the meeting
+ * point follows from `speed` and `progress` alone, and the blast is aimed
+ * upwind by as far as it will drift while growing. Decisions depend on the
+ * state only, which keeps bot games deterministic for a given seed.
+ */
+export class Autopilot {
+  constructor(private readonly options: AutopilotOptions = DEFAULT_AUTOPILOT) {}
+
+  // Commands to dispatch before the next step
+  decide(state: SimulationState): PlayerCommand[] {
+    if (state.status !== 'PLAYING') return [];
+    if (state.shopOpen) return [this.shop(state)];
+    if (state.waveTransitionTimer > 0 || state.tick % this.options.thinkEverySteps !== 0) return [];
+    // Aiming waits for the next decision, as an EMP may clear the rockets it would aim at
+    const special = this.special(state);
+    return special ? [special] : this.aim(state);
+  }
+
+  private special(state: SimulationState): PlayerCommand | null {
+    const ready = (weapon: SpecialWeapon) => state.specials[weapon].charges > 0 && state.specials[weapon].cooldownMs === 0;
+    if (ready('emp') && state.rockets.filter(r => r.y < EMP_CEILING).length >= EMP_MIN_ROCKETS) {
+      return { type: 'special', weapon: 'emp' };
+    }
+    if (ready('slowMo') && state.slowMoMs === 0 && state.rockets.length >= SLOW_MO_MIN_ROCKETS) {
+      return { type: 'special', weapon: 'slowMo' };
+    }
+    return null;
+  }
+
+  private shop(state: SimulationState): PlayerCommand {
+    const budget = state.score * (1 - this.options.scoreReserve);
+    for (const upgrade of SHOPPING_LIST) {
+      const targets = upgrade === 'rebuildCity' ? state.cities : state.turrets;
+      for (const target of targets) {
+        const check = checkPurchase(state, upgrade, target.id);
+        // Repairs are worth the whole score: without turrets the game is lost
+        const affordable = upgrade === 'repairTurret' || ('price' in check && check.price <= budget);
+        if (check.ok && affordable) return { type: 'buy', upgrade, targetId: target.id };
+      }
+    }
+    return { type: 'continue' };
+  }
+
+  private aim(state: SimulationState): PlayerCommand[] {
+    const ready = state.turrets.filter(t => !t.destroyed && t.ammo > 0 && t.cooldownMs === 0);
+    if (ready.length === 0) return [];
+
+    const capacity = state.turrets.reduce((sum, t) => sum + (t.destroyed ? 0 : t.maxAmmo), 0);
+    const ammo = state.turrets.reduce((sum, t) => sum + (t.destroyed ? 0 : t.ammo), 0);
+    const conserve = capacity === 0 || ammo / capacity < this.options.conserveAmmoBelow;
+
+    const shots: Shot[] = state.missiles.map(m => ({
+      x: m.targetX,
+      y: m.targetY,
+      radius: m.blastRadius,
+      inSteps: flightSteps(m.speed, m.progress),
+    }));
+    const commands: PlayerCommand[] = [];
+
+    // Most urgent first, rockets with something to destroy ahead of the rest
+    const targets = this.targets(state)
+      .filter(target => target.threat || !conserve)
+      .sort((a, b) => Number(b.threat) - Number(a.threat) || a.stepsLeft - b.stepsLeft);
+
+    for (const target of targets) {
+      if (ready.length === 0) break;
+      if (isCovered(state, target, shots)) continue;
+
+      let best: { turret: Turret; shot: Shot } | null = null;
+      for (const turret of ready) {
+        const shot = planShot(turret, target, state.wind);
+        if (shot && (!best || shot.inSteps < best.shot.inSteps)) best = { turret, shot };
+      }
+      if (!best) continue;
+
+      shots.push(best.shot);
+      ready.splice(ready.indexOf(best.turret), 1);
+      commands.push({ type: 'fire', x: best.shot.x, y: best.shot.y, turrets: [best.turret.id] });
+    }
+    return commands;
+  }
+
+  private targets(state: SimulationState): Target[] {
+    // Predictions assume a slow-motion field lasts; it rarely matters by the time it ends
+    const scale = enemyTimeScale(state);
+    const rockets: Target[] = state.rockets.map(rocket => {
+      // A MIRV is worth catching before it splits into several warheads
+      const end = rocket.splitAt ?? 1;
+      const speed = rocket.speed * scale;
+      return {
+        predict: steps => predictRocket(rocket, rocket.progress + speed * steps, end),
+        stepsLeft: (end - rocket.progress) / speed,
+        // Judged by where the wind is taking it, not by what it was aimed at
+        threat: structureAt(state.cities, state.turrets, rocket.targetX + rocket.driftX, rocket.targetY) !== null,
+      };
+    });
+    const aircraft: Target[] = state.aircraft.map(plane => ({
+      predict: steps => {
+        const x = plane.x + plane.vx * scale * steps;
+        return x < 0 || x > GAME_WIDTH ? null : { x, y: plane.y };
+      },
+      stepsLeft: Infinity,
+      threat: false,
+    }));
+    // Crates are shot at like aircraft, when there is ammo to spare
+    const crates: Target[] = state.crates.map(crate => ({
+      predict: steps => {
+        const x = crate.x + (crate.vx + state.wind.x) * steps;
+        const y = crate.y + CRATE_FALL_SPEED * steps;
+        return x < 0 || x > GAME_WIDTH || y >= groundY(state.ground, x) ? null : { x, y };
+      },
+      stepsLeft: Infinity,
+      threat: false,
+    }));
+    return [...rockets, ...aircraft, ...crates];
+  }
+}
+
+// Steps until a missile moving `speed` per step from `progress` detonates
+function flightSteps(speed: number, progress = 0): number {
+  let steps = 0;
+  while (progress < 1) {
+    progress += speed;
+    steps++;
+  }
+  return steps;
+}
+
+// Evasion and wind drift are assumed to stay as they are
+function predictRocket(rocket: Rocket, progress: number, end: number): { x: number; y: number } | null {
+  if (progress >= end) return null;
+  const point = pathPoint(rocket, progress);
+  return { x: point.x + rocket.evadeX * (1 - progress) + rocket.driftX, y: point.y };
+}
+
+// Explosions grow 2px per step; aiming where the target will be once the
+// blast is half grown leaves margin on both sides
+function growthSteps(radius: number): number {
+  return Math.ceil(radius / 4);
+}
+
+function planShot(turret: Turret, target: Target, wind: Wind): Shot | null {
+  const archetype = TURRET_ARCHETYPES[turret.archetype];
+  const radius = blastRadiusFor(turret, archetype.blastRadius);
+  const inSteps = flightSteps(missileSpeedFor(turret, archetype.missileSpeed));
+  const growth = growthSteps(radius);
+  const point = target.predict(inSteps + growth);
+  if (!point) return null;
+  const x = point.x - wind.x * growth;
+  const y = point.y - wind.y * growth;
+  if (!inRange(turret.archetype, turret.x, turret.y, x, y)) return null;
+  return { x, y, radius, inSteps };
+}
+
+// True when a blast already on its way, or already growing, will catch the target
+function isCovered(state: SimulationState, target: Target, shots: Shot[]): boolean {
+  const { wind } = state;
+  for (const shot of shots) {
+    const growth = growthSteps(shot.radius);
+    const point = target.predict(shot.inSteps + growth);
+    if (!point) continue;
+    const distance = Math.hypot(point.x - shot.x - wind.x * growth, point.y - shot.y - wind.y * growth);
+    if (distance < shot.radius * 0.8) return true;
+  }
+  for (const exp of state.explosions) {
+    if (!exp.growing) continue;
+    const steps = Math.ceil((exp.maxRadius - exp.radius) / 2);
+    const point = target.predict(steps);
+    if (!point) continue;
+    // Only interceptor blasts drift, see GameSimulation.updateExplosions
+    const drift = exp.turretId === null ? 0 : steps;
+    if (Math.hypot(point.x - exp.x - wind.x * drift, point.y - exp.y - wind.y * drift) < exp.maxRadius) return true;
+  }
+  return false;
+}
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TurretArchetype } from './types';
+
+export const GAME_WIDTH = 800;
+export const GAME_HEIGHT = 600;
+export const WIN_SCORE = 5000;
+export const TIME_ATTACK_MS = 3 * 60 * 1000;
+export const POINTS_PER_KILL = 20;
+export const AMMO_BONUS = 2;
+export const CITY_BONUS = 100;
+
+// The original loop scaled every update by `dt / 16`, so a 16ms tick keeps all speeds unchanged.
+export const FIXED_STEP_MS = 16;
+export const WAVE_TRANSITION_MS = 2000;
+// Longest frame the render loop will catch up on; a stalled tab or debugger
+// pause beyond this is dropped instead of fast-forwarding the game.
+export const MAX_FRAME_MS = 250;
+
+// Ammo, missile speed, blast and reload come from the slot's archetype (see ./turrets)
+export const TURRET_CONFIGS: { id: number; x: number; label: string; archetype: TurretArchetype }[] = [
+  { id: 0, x: 50, label: 'L1', archetype: 'flak' },
+  { id: 1, x: 225, label: 'L2', archetype: 'pointDefense' },
+  { id: 2, x: 400, label: 'C', archetype: 'heavy' },
+  { id: 3, x: 575, label: 'R2', archetype: 'pointDefense' },
+  { id: 4, x: 750, label: 'R1', archetype: 'flak' },
+];
+
+export const CITY_POSITIONS = [135, 310, 490, 665];
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FIXED_STEP_MS } from './constants';
+import type { Rocket } from './types';
+import type { WaveDefinition } from './waves';
+
+/**
+ * Adaptive difficulty. After each wave the director scores how comfortably
+ * the player handled it and nudges an intensity multiplier that scales the
+ * next wave's enemy count, speed and spawn interval. Everything here is plain
+ * data on the simulation state, so adaptive games replay and resume exactly.
+ */
+
+export type DirectorConfig = {
+  // Performance scores inside this band leave the intensity unchanged
+  targetBand: [number, number];
+  // Intensity change per point of performance outside the band
+  gain: number;
+  // Largest intensity change after a single wave
+  maxStep: number;
+  intensity: [number, number];
+  // Relative weight of each metric in the performance score
+  weights: Record<MetricName, number>;
+  // Average reaction times scored as 1 and 0 respectively
+  reactionMs: [number, number];
+  // How strongly intensity affects speed; 1 would scale speed like enemy count
+  speedResponse: number;
+  minSpawnIntervalMs: number;
+};
+
+export type MetricName = 'accuracy' | 'ammoLeft' | 'citiesKept' | 'reaction';
+
+export const DIRECTOR_CONFIG: DirectorConfig = {
+  targetBand: [0.45, 0.7],
+  gain: 0.8,
+  maxStep: 0.2,
+  intensity: [0.6, 1.6],
+  weights: { accuracy: 0.3, ammoLeft: 0.2, citiesKept: 0.3, reaction: 0.2 },
+  reactionMs: [1500, 6000],
+  speedResponse: 0.5,
+  minSpawnIntervalMs: 250,
+};
+
+// Running totals for the wave in progress
+export type WaveTally = {
+  shots: number;
+  kills: number;
+  // Summed time enemy rockets were in the air before being shot down
+  reactionMsTotal: number;
+  rocketKills: number;
+  citiesAtStart: number;
+};
+
+export type WaveMetrics = {
+  accuracy: number;
+  ammoLeft: number;
+  citiesLost: number;
+  // Average ms a destroyed rocket had been flying; null when none were destroyed
+  reactionMs: number | null;
+};
+
+export type DirectorDecision = {
+  wave: number;
+  metrics: WaveMetrics;
+  // Each metric mapped to 0..1, where 1 means the wave was easy on that measure
+  scores: Record<MetricName, number>;
+  performance: number;
+  previousIntensity: number;
+  intensity: number;
+  // What the next wave will look like
+  next: Pick<WaveDefinition, 'enemies' | 'spawnIntervalMs' | 'speedMultiplier'>;
+};
+
+export type DirectorState = {
+  intensity: number;
+  tally: WaveTally;
+  history: DirectorDecision[];
+};
+
+export function createDirector(citiesAlive: number): DirectorState {
+  return {
+    intensity: 1,
+    tally: { shots: 0, kills: 0, reactionMsTotal: 0, rocketKills: 0, citiesAtStart: citiesAlive },
+    history: [],
+  };
+}
+
+export function resetTally(director: DirectorState, citiesAlive: number) {
+  director.tally = { shots: 0, kills: 0, reactionMsTotal: 0, rocketKills: 0, citiesAtStart: citiesAlive };
+}
+
+export function recordShot(director: DirectorState) {
+  director.tally.shots++;
+}
+
+// Aircraft pass `null`: they fly across rather than towards the ground, so
+// only rockets count towards reaction time. Rocket progress grows by `speed`
+// every tick, so their ratio is the flight time.
+export function recordKill(director: DirectorState, rocket: Rocket | null) {
+  const { tally } = director;
+  tally.kills++;
+  if (rocket && rocket.speed > 0) {
+    tally.reactionMsTotal += (rocket.progress / rocket.speed) * FIXED_STEP_MS;
+    tally.rocketKills++;
+  }
+}
+
+// Scales a scripted wave by the current intensity, within the configured bounds
+export function adjustPlan(plan: WaveDefinition, intensity: number, config = DIRECTOR_CONFIG): WaveDefinition {
+  return {
+    ...plan,
+    enemies: Math.max(1, Math.round(plan.enemies * intensity)),
+    spawnIntervalMs: Math.max(config.minSpawnIntervalMs, Math.round(plan.spawnIntervalMs / intensity)),
+    speedMultiplier: plan.speedMultiplier * Math.pow(intensity, config.speedResponse),
+  };
+}
+
+/**
+ * Scores the finished wave and moves the intensity towards the target band.
+ * `nextPlan` is the scripted definition of the following wave; the returned
+ * decision is also appended to the director's history.
+ */
+export function evaluateWave(
+  director: DirectorState,
+  wave: number,
+  ammoLeft: number,
+  citiesAlive: number,
+  nextPlan: WaveDefinition,
+  config = DIRECTOR_CONFIG,
+): DirectorDecision {
+  const { tally } = director;
+  const metrics: WaveMetrics = {
+    accuracy: tally.shots > 0 ? Math.min(1, tally.kills / tally.shots) : 0,
+    ammoLeft,
+    citiesLost: Math.max(0, tally.citiesAtStart - citiesAlive),
+    reactionMs: tally.rocketKills > 0 ? tally.reactionMsTotal / tally.rocketKills : null,
+  };
+
+  const [fast, slow] = config.reactionMs;
+  const scores: Record<MetricName, number> = {
+    // A wave cleared without firing says nothing about aim
+    accuracy: tally.shots > 0 ? metrics.accuracy : 0.5,
+    ammoLeft,
+    citiesKept: tally.citiesAtStart > 0 ? citiesAlive / tally.citiesAtStart : 0.5,
+    reaction: metrics.reactionMs === null ? 0.5 : clamp((slow - metrics.reactionMs) / (slow - fast), 0, 1),
+  };
+
+  const metricNames = Object.keys(config.weights) as MetricName[];
+  const totalWeight = metricNames.reduce((sum, name) => sum + config.weights[name], 0);
+  const performance = metricNames.reduce((sum, name) => sum + scores[name] * config.weights[name], 0) / totalWeight;
+
+  const [low, high] = config.targetBand;
+  const miss = performance > high ? performance - high : performance < low ? performance - low : 0;
+  const change = clamp(miss * config.gain, -config.maxStep, config.maxStep);
+  const previousIntensity = director.intensity;
+  director.intensity = clamp(previousIntensity + change, config.intensity[0], config.intensity[1]);
+
+  const { enemies, spawnIntervalMs, speedMultiplier } = adjustPlan(nextPlan, director.intensity, config);
+  const decision: DirectorDecision = {
+    wave,
+    metrics,
+    scores,
+    performance,
+    previousIntensity,
+    intensity: director.intensity,
+    next: { enemies, spawnIntervalMs, speedMultiplier },
+  };
+  director.history.push(decision);
+  return decision;
+}
+
+// One line per decision, for the browser console and the balance logs
+export function formatDecision(d: DirectorDecision): string {
+  const { metrics: m } = d;
+  const reaction = m.reactionMs === null ? '-' : `${Math.round(m.reactionMs)}ms`;
+  return `wave ${d.wave}: accuracy ${pct(m.accuracy)}, ammo left ${pct(m.ammoLeft)}, cities lost ${m.citiesLost}, `
+    + `reaction ${reaction} -> performance ${d.performance.toFixed(2)}, `
+    + `intensity ${d.previousIntensity.toFixed(2)} -> ${d.intensity.toFixed(2)} `
+    + `(next: ${d.next.enemies} enemies, ${d.next.spawnIntervalMs}ms interval, x${d.next.speedMultiplier.toFixed(2)} speed)`;
+}
+
+function pct(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { POINTS_PER_KILL } from './constants';
+import type { AircraftKind, Difficulty, EnemyKind, PathKind } from './types';
+
+// When and how often each enemy appears is decided by the wave scripts in ./waves
+
+export type RocketTypeConfig = {
+  points: number;
+  // Progress per tick before wave scaling, like the original rocket speed
+  baseSpeed: number;
+  speedScale: Record<Difficulty, number>;
+  // Relative chance of each flight path once curved paths are in play (see CURVED_PATHS_FROM_WAVE)
+  paths: Partial<Record<PathKind, number>>;
+  // How strongly the wind pushes it sideways; slow, heavy rockets drift the most
+  windScale: number;
+};
+
+export type AircraftTypeConfig = {
+  points: number;
+  // Horizontal pixels per tick
+  speed: number;
+  speedScale: Record<Difficulty, number>;
+  altitude: [number, number];
+  drops: number;
+  dropIntervalMs: number;
+};
+
+export const ROCKET_TYPES: Record<EnemyKind, RocketTypeConfig> = {
+  rocket: {
+    points: POINTS_PER_KILL,
+    baseSpeed: 0.0015,
+    speedScale: { EASY: 0.7, NORMAL: 1, HARD: 1.3 },
+    paths: { straight: 6, ballistic: 2, weaving: 2 },
+    windScale: 0.2,
+  },
+  mirv: {
+    points: 50,
+    baseSpeed: 0.0012,
+    speedScale: { EASY: 0.7, NORMAL: 1, HARD: 1.25 },
+    paths: { straight: 3, ballistic: 1 },
+    windScale: 0.3,
+  },
+  smart: {
+    points: 75,
+    baseSpeed: 0.0011,
+    speedScale: { EASY: 0.75, NORMAL: 1, HARD: 1.2 },
+    // Smart bombs steer themselves, which the wind would only undo
+    paths: { straight: 1 },
+    windScale: 0,
+  },
+  warhead: {
+    points: 15,
+    baseSpeed: 0.0025,
+    speedScale: { EASY: 0.7, NORMAL: 1, HARD: 1.3 },
+    paths: { straight: 1 },
+    windScale: 0.1,
+  },
+};
+
+export const AIRCRAFT_TYPES: Record<AircraftKind, AircraftTypeConfig> = {
+  bomber: {
+    points: 100,
+    speed: 0.8,
+    speedScale: { EASY: 0.8, NORMAL: 1, HARD: 1.2 },
+    altitude: [70, 140],
+    drops: 3,
+    dropIntervalMs: 1200,
+  },
+  satellite: {
+    points: 150,
+    speed: 1.4,
+    speedScale: { EASY: 0.8, NORMAL: 1, HARD: 1.25 },
+    altitude: [30, 60],
+    drops: 2,
+    dropIntervalMs: 900,
+  },
+};
+
+export const ROCKET_WAVE_SCALING = 0.00015;
+
+export const MIRV_SPLIT_RANGE: [number, number] = [0.3, 0.55];
+export const MIRV_WARHEADS: [number, number] = [2, 4];
+
+// Smart bombs dodge growing explosions within this distance of their edge
+export const SMART_EVADE_RANGE = 60;
+export const SMART_EVADE_ACCEL = 1.2;
+export const SMART_EVADE_MAX = 120;
+
+// Aircraft are bigger than rockets, so blasts reach them from further away
+export const AIRCRAFT_HIT_RADIUS = 12;
+
+export function rocketSpeed(kind: EnemyKind, wave: number, difficulty: Difficulty): number {
+  const config = ROCKET_TYPES[kind];
+  return (config.baseSpeed + wave * ROCKET_WAVE_SCALING) * config.speedScale[difficulty];
+}
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CITY_POSITIONS, GAME_HEIGHT, GAME_WIDTH, TURRET_CONFIGS } from './constants';
+import { TURRET_ARCHETYPES } from './turrets';
+import type { City, Turret, TurretArchetype } from './types';
+
+// Ground height is given at this many evenly spaced points from x = 0 to GAME_WIDTH
+export const GROUND_POINTS = 17;
+// Height above the bottom edge; the lowest is the original flat strip
+export const GROUND_HEIGHT: [number, number] = [20, 180];
+export const AMMO_RANGE: [number, number] = [1, 99];
+
+// Half the footprint of each structure, for bounds and overlap checks
+export const TURRET_HALF_WIDTH = 20;
+export const CITY_HALF_WIDTH = 15;
+// How far above or below a structure's base an impact still reaches it
+const IMPACT_REACH_Y = 30;
+
+export type LayoutTurret = { x: number; archetype: TurretArchetype; ammo: number };
+
+// Where the defenses stand and what the ground looks like. Turrets are
+// numbered left to right, so their order in the file does not matter.
+export type Layout = {
+  name: string;
+  turrets: LayoutTurret[];
+  // X position of each city
+  cities: number[];
+  // GROUND_POINTS heights, see GROUND_HEIGHT
+  ground: number[];
+};
+
+export const DEFAULT_LAYOUT: Layout = {
+  name: 'Nova',
+  turrets: TURRET_CONFIGS.map(({ x, archetype }) => ({ x, archetype, ammo: TURRET_ARCHETYPES[archetype].ammo })),
+  cities: CITY_POSITIONS,
+  ground: Array.from({ length: GROUND_POINTS }, () => GROUND_HEIGHT[0]),
+};
+
+export class LayoutFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutFormatError';
+  }
+}
+
+// Linear between the control points
+export function groundHeightAt(ground: number[], x: number): number {
+  const position = (Math.max(0, Math.min(GAME_WIDTH, x)) / GAME_WIDTH) * (ground.length - 1);
+  const i = Math.min(Math.floor(position), ground.length - 2);
+  const t = position - i;
+  return ground[i] * (1 - t) + ground[i + 1] * t;
+}
+
+// Y of the ground surface, which is where cities stand; turrets sit 10px higher
+export function groundY(ground: number[], x: number): number {
+  return GAME_HEIGHT - groundHeightAt(ground, x);
+}
+
+// The standing city or turret an impact at (x, y) lands on, the closest when
+// footprints overlap. Rockets can curve or be blown off course, so where they
+// come down decides what they hit, not what they were aimed at.
+export function structureAt(cities: City[], turrets: Turret[], x: number, y: number): City | Turret | null {
+  let closest: City | Turret | null = null;
+  let closestDist = Infinity;
+  const consider = (structure: City | Turret, half: number) => {
+    const dx = Math.abs(structure.x - x);
+    if (structure.destroyed || dx > half || Math.abs(structure.y - y) > IMPACT_REACH_Y || dx >= closestDist) return;
+    closest = structure;
+    closestDist = dx;
+  };
+  cities.forEach(city => consider(city, CITY_HALF_WIDTH));
+  turrets.forEach(turret => consider(turret, TURRET_HALF_WIDTH));
+  return closest;
+}
+
+// Battery keys group turrets by the first letter of the label: L*, C*, R* for
+// each third of the screen, numbered from the outside in. A lone center turret
+// is plain 'C', which gives the default layout its original labels.
+export function labelTurrets(xs: number[]): string[] {
+  const third = (x: number) => (x < GAME_WIDTH / 3 ? 'L' : x > (GAME_WIDTH * 2) / 3 ? 'R' : 'C');
+  return xs.map(x => {
+    const group = third(x);
+    const members = xs.filter(other => third(other) === group);
+    if (group === 'C' && members.length === 1) return 'C';
+    const rank = members.filter(other => (group === 'R' ? other > x : other < x)).length;
+    return `${group}${rank + 1}`;
+  });
+}
+
+export type LayoutProblem =
+  | { kind: 'noTurrets' }
+  | { kind: 'outOfBounds'; item: LayoutItem }
+  | { kind: 'overlap'; items: [LayoutItem, LayoutItem] }
+  | { kind: 'ammo'; item: LayoutItem }
+  | { kind: 'ground' };
+
+export type LayoutItem = { type: 'turret' | 'city'; index: number };
+
+// Everything that would make the layout unplayable; empty when it is fine
+export function validateLayout(layout: Layout): LayoutProblem[] {
+  const problems: LayoutProblem[] = [];
+  if (layout.turrets.length === 0) problems.push({ kind: 'noTurrets' });
+
+  const items = [
+    ...layout.turrets.map((t, index) => ({ item: { type: 'turret', index } as LayoutItem, x: t.x, half: TURRET_HALF_WIDTH })),
+    ...layout.cities.map((x, index) => ({ item: { type: 'city', index } as LayoutItem, x, half: CITY_HALF_WIDTH })),
+  ];
+  for (const { item, x, half } of items) {
+    if (x - half < 0 || x + half > GAME_WIDTH) problems.push({ kind: 'outOfBounds', item });
+  }
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (Math.abs(items[i].x - items[j].x) < items[i].half + items[j].half) {
+        problems.push({ kind: 'overlap', items: [items[i].item, items[j].item] });
+      }
+    }
+  }
+  layout.turrets.forEach((t, index) => {
+    if (!Number.isInteger(t.ammo) || t.ammo < AMMO_RANGE[0] || t.ammo > AMMO_RANGE[1]) {
+      problems.push({ kind: 'ammo', item: { type: 'turret', index } });
+    }
+  });
+  const [low, high] = GROUND_HEIGHT;
+  if (layout.ground.length !== GROUND_POINTS || layout.ground.some(h => !(h >= low && h <= high))) {
+    problems.push({ kind: 'ground' });
+  }
+  return problems;
+}
+
+export function serializeLayout(layout: Layout): string {
+  return JSON.stringify(layout, null, 2);
+}
+
+// Checks the shape of a layout file; validateLayout decides whether it is playable
+export function parseLayout(text: string): Layout {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LayoutFormatError('Layout file is not valid JSON');
+  }
+  return readLayout(data);
+}
+
+// Also used for layouts embedded in replays
+export function readLayout(data: unknown): Layout {
+  if (typeof data !== 'object' || data === null) throw new LayoutFormatError('Layout must be a JSON object');
+  const l = data as Record<string, unknown>;
+  if (!Array.isArray(l.turrets)) throw new LayoutFormatError('Layout is missing the "turrets" list');
+  if (!Array.isArray(l.cities)) throw new LayoutFormatError('Layout is missing the "cities" list');
+  if (!Array.isArray(l.ground)) throw new LayoutFormatError('Layout is missing the "ground" heights');
+
+  const turrets = l.turrets.map((turret: unknown, i): LayoutTurret => {
+    const t = (turret ?? {}) as Record<string, unknown>;
+    if (typeof t.x !== 'number') throw new LayoutFormatError(`Turret #${i + 1} is missing a numeric "x"`);
+    if (typeof t.archetype !== 'string' || !Object.hasOwn(TURRET_ARCHETYPES, t.archetype)) {
+      throw new LayoutFormatError(`Turret #${i + 1} has an unknown archetype: ${String(t.archetype)}`);
+    }
+    const archetype = t.archetype as TurretArchetype;
+    if (t.ammo !== undefined && typeof t.ammo !== 'number') throw new LayoutFormatError(`Turret #${i + 1} has a non-numeric "ammo"`);
+    return { x: t.x, archetype, ammo: (t.ammo as number | undefined) ?? TURRET_ARCHETYPES[archetype].ammo };
+  });
+  l.cities.forEach((x, i) => {
+    if (typeof x !== 'number') throw new LayoutFormatError(`City #${i + 1} is not a number`);
+  });
+  l.ground.forEach((h, i) => {
+    if (typeof h !== 'number') throw new LayoutFormatError(`Ground point #${i + 1} is not a number`);
+  });
+
+  return {
+    name: typeof l.name === 'string' ? l.name : '',
+    turrets,
+    cities: l.cities as number[],
+    ground: l.ground as number[],
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TIME_ATTACK_MS, WIN_SCORE } from './constants';
+import { SWARM_SCRIPT, WAVE_SCRIPTS, type WaveScript } from './waves';
+import type { Difficulty, GameMode } from './types';
+
+export type ModeConfig = {
+  script: (difficulty: Difficulty) => WaveScript;
+  // Reaching this score wins; null means the mode never ends in victory
+  winScore: number | null;
+  // Play time after which the run ends as a win; time spent in the shop does not count
+  timeLimitMs: number | null;
+  // 'turrets' loses once every turret is down, 'everything' only once the cities are gone too
+  loseWhen: 'turrets' | 'everything';
+  // Impacts still explode but cannot destroy cities or turrets
+  shieldedGround: boolean;
+  // Supply crates parachute in during waves
+  supplyDrops: boolean;
+};
+
+export const GAME_MODES: Record<GameMode, ModeConfig> = {
+  classic: {
+    script: difficulty => WAVE_SCRIPTS[difficulty],
+    winScore: WIN_SCORE,
+    timeLimitMs: null,
+    loseWhen: 'turrets',
+    shieldedGround: false,
+    supplyDrops: true,
+  },
+  // The difficulty's script keeps escalating past its last wave for as long as anything stands
+  endless: {
+    script: difficulty => WAVE_SCRIPTS[difficulty],
+    winScore: null,
+    timeLimitMs: null,
+    loseWhen: 'everything',
+    shieldedGround: false,
+    supplyDrops: true,
+  },
+  // Score as much as possible before the clock runs out
+  timeAttack: {
+    script: difficulty => WAVE_SCRIPTS[difficulty],
+    winScore: null,
+    timeLimitMs: TIME_ATTACK_MS,
+    loseWhen: 'turrets',
+    shieldedGround: false,
+    supplyDrops: true,
+  },
+  // Keeps the field full for as long as the player wants to watch it
+  swarm: {
+    script: () => SWARM_SCRIPT,
+    winScore: null,
+    timeLimitMs: null,
+    loseWhen: 'turrets',
+    shieldedGround: true,
+    supplyDrops: false,
+  },
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { EnemyKind, TurretArchetype } from './types';
+
+// 'redGreen' and 'blueYellow' avoid the hue pairs that protan/deutan and
+// tritan color vision cannot tell apart (based on the Okabe–Ito set);
+// 'highContrast' pushes everything to saturated colors on the dark sky
+export type PaletteId = 'default' | 'redGreen' | 'blueYellow' | 'highContrast';
+
+export type EnemyColors = { body: string; nose: string; detail: string; trail: string };
+export type InterceptorColors = { body: string; barrel: string; trail: string };
+
+// Every color the world is drawn in that tells friend from foe. All #rrggbb,
+// so the renderer can add transparency with withAlpha.
+export type Palette = {
+  enemies: Record<EnemyKind, EnemyColors>;
+  interceptors: Record<TurretArchetype, InterceptorColors>;
+  city: { body: string; roof: string };
+  ruins: { city: string; turret: string };
+  // Radial gradient of an explosion, from the center out
+  explosion: { core: string; middle: string; edge: string };
+};
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  default: {
+    enemies: {
+      rocket: { body: '#ff4d4d', nose: '#ff0000', detail: '#990000', trail: '#ff5050' },
+      warhead: { body: '#ff4d4d', nose: '#ff0000', detail: '#990000', trail: '#ff5050' },
+      mirv: { body: '#b565ff', nose: '#7d2fd0', detail: '#f5e0ff', trail: '#c85aff' },
+      smart: { body: '#ffaa28', nose: '#ffaa28', detail: '#7a3d00', trail: '#ffaa28' },
+    },
+    interceptors: {
+      standard: { body: '#3498db', barrel: '#2980b9', trail: '#3498db' },
+      flak: { body: '#e67e22', barrel: '#ba4a00', trail: '#e67e22' },
+      heavy: { body: '#8e44ad', barrel: '#5b2c6f', trail: '#8e44ad' },
+      pointDefense: { body: '#1abc9c', barrel: '#117a65', trail: '#1abc9c' },
+    },
+    city: { body: '#4ecca3', roof: '#45b293' },
+    ruins: { city: '#222222', turret: '#922b21' },
+    explosion: { core: '#ffffff', middle: '#f1c40f', edge: '#e74c3c' },
+  },
+  redGreen: {
+    enemies: {
+      rocket: { body: '#d55e00', nose: '#ff7f2a', detail: '#7a3600', trail: '#d55e00' },
+      warhead: { body: '#e69f00', nose: '#ffbf40', detail: '#8a5f00', trail: '#e69f00' },
+      mirv: { body: '#f0e442', nose: '#c9bd1e', detail: '#fffbd0', trail: '#f0e442' },
+      smart: { body: '#cc79a7', nose: '#cc79a7', detail: '#5e2a47', trail: '#cc79a7' },
+    },
+    interceptors: {
+      standard: { body: '#56b4e9', barrel: '#2f86b8', trail: '#56b4e9' },
+      flak: { body: '#9ad0f5', barrel: '#5c9fcc', trail: '#9ad0f5' },
+      heavy: { body: '#0072b2', barrel: '#004d78', trail: '#3a9ad6' },
+      pointDefense: { body: '#b8e0ff', barrel: '#7aaed6', trail: '#b8e0ff' },
+    },
+    city: { body: '#e0e0e0', roof: '#bdbdbd' },
+    ruins: { city: '#333333', turret: '#5c5c5c' },
+    explosion: { core: '#ffffff', middle: '#f0e442', edge: '#e69f00' },
+  },
+  blueYellow: {
+    enemies: {
+      rocket: { body: '#ff4d4d', nose: '#ff1a1a', detail: '#8c0000', trail: '#ff4d4d' },
+      warhead: { body: '#ff8080', nose: '#ff4d4d', detail: '#993333', trail: '#ff8080' },
+      mirv: { body: '#e040a0', nose: '#a8207a', detail: '#ffd0ec', trail: '#e040a0' },
+      smart: { body: '#ff66cc', nose: '#ff66cc', detail: '#7a1f5c', trail: '#ff66cc' },
+    },
+    interceptors: {
+      standard: { body: '#00c2c2', barrel: '#008f8f', trail: '#00c2c2' },
+      flak: { body: '#5ee0e0', barrel: '#2aa8a8', trail: '#5ee0e0' },
+      heavy: { body: '#009e73', barrel: '#006b4e', trail: '#20c090' },
+      pointDefense: { body: '#a0f0f0', barrel: '#60c0c0', trail: '#a0f0f0' },
+    },
+    city: { body: '#e0e0e0', roof: '#bdbdbd' },
+    ruins: { city: '#333333', turret: '#5c5c5c' },
+    explosion: { core: '#ffffff', middle: '#ff9a9a', edge: '#ff4d4d' },
+  },
+  highContrast: {
+    enemies: {
+      rocket: { body: '#ff2d2d', nose: '#ffffff', detail: '#ff2d2d', trail: '#ff2d2d' },
+      warhead: { body: '#ff6b6b', nose: '#ffffff', detail: '#ff6b6b', trail: '#ff6b6b' },
+      mirv: { body: '#ff00ff', nose: '#ffffff', detail: '#ff00ff', trail: '#ff00ff' },
+      smart: { body: '#ff9900', nose: '#ff9900', detail: '#000000', trail: '#ff9900' },
+    },
+    interceptors: {
+      standard: { body: '#00e5ff', barrel: '#ffffff', trail: '#00e5ff' },
+      flak: { body: '#00ff85', barrel: '#ffffff', trail: '#00ff85' },
+      heavy: { body: '#4d7cff', barrel: '#ffffff', trail: '#4d7cff' },
+      pointDefense: { body: '#b0ffff', barrel: '#ffffff', trail: '#b0ffff' },
+    },
+    city: { body: '#ffffff', roof: '#ffff00' },
+    ruins: { city: '#555555', turret: '#555555' },
+    explosion: { core: '#ffffff', middle: '#ffff00', edge: '#ff8800' },
+  },
+};
+
+export function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${value >> 16}, ${(value >> 8) & 0xff}, ${value & 0xff}, ${alpha})`;
+}
@@ -0,0 +1,739 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_WIDTH, GAME_HEIGHT } from './constants';
+import { groundY } from './layout';
+import { PALETTES, withAlpha, type EnemyColors, type Palette } from './palettes';
+import { EMP_CEILING } from './supplies';
+import { pathHeading, pathPoint, type PathShape } from './trajectories';
+import { TURRET_ARCHETYPES } from './turrets';
+import type {
+  EnemyKind,
+  Explosion,
+  Rocket,
+  SimulationState,
+  SupplyCrate,
+  SupplyKind,
+  Turret,
+  TurretArchetype,
+  TurretUpgrade,
+} from './types';
+
+export type Star = { x: number; y: number; size: number; opacity: number };
+
+// Stars are purely cosmetic, so they use Math.random rather than the simulation RNG
+export function createStars(count = 150): Star[] {
+  const stars: Star[] = [];
+  for (let i = 0; i < count; i++) {
+    stars.push({
+      x: Math.random() * GAME_WIDTH,
+      y: Math.random() * GAME_HEIGHT,
+      size: Math.random() * 1.5,
+      opacity: Math.random()
+    });
+  }
+  return stars;
+}
+
+// The accessibility settings as far as drawing is concerned
+export type RenderTheme = {
+  palette: Palette;
+  // Hazard markers on enemies, rings on interceptors, crosses on ruins
+  shapeCues: boolean;
+  // Animations hold still and explosions are drawn without the bright flash
+  reducedMotion: boolean;
+};
+
+export const DEFAULT_THEME: RenderTheme = { palette: PALETTES.default, shapeCues: false, reducedMotion: false };
+
+const trailAlpha = (kind: EnemyKind) => (kind === 'warhead' ? 0.35 : 0.5);
+
+// Shapes below are drawn around the origin, pointing along +X
+
+function drawFireTail(ctx: CanvasRenderingContext2D, time: number, fromX: number) {
+  const fireSize = 15 + Math.sin(time / 50) * 5;
+  const fireGrad = ctx.createLinearGradient(fromX, 0, fromX - fireSize, 0);
+  fireGrad.addColorStop(0, '#ffcc00');
+  fireGrad.addColorStop(0.5, '#ff6600');
+  fireGrad.addColorStop(1, 'transparent');
+  ctx.fillStyle = fireGrad;
+  ctx.beginPath();
+  ctx.moveTo(fromX, 0);
+  ctx.lineTo(fromX - fireSize, -4);
+  ctx.lineTo(fromX - fireSize * 0.8, 0);
+  ctx.lineTo(fromX - fireSize, 4);
+  ctx.fill();
+}
+
+function drawRocketBody(ctx: CanvasRenderingContext2D, time: number, colors: EnemyColors) {
+  // Enemy Rocket Body (Larger)
+  ctx.fillStyle = colors.body;
+  ctx.fillRect(-7, -3, 14, 6);
+  // Nose cone (Larger)
+  ctx.fillStyle = colors.nose;
+  ctx.beginPath();
+  ctx.moveTo(7, -3);
+  ctx.lineTo(13, 0);
+  ctx.lineTo(7, 3);
+  ctx.fill();
+  // Fins
+  ctx.fillStyle = colors.detail;
+  ctx.fillRect(-7, -5, 3, 10);
+
+  drawFireTail(ctx, time, -7);
+}
+
+function drawMirv(ctx: CanvasRenderingContext2D, time: number, colors: EnemyColors) {
+  // Wider bus carrying several warheads
+  ctx.fillStyle = colors.body;
+  ctx.fillRect(-9, -5, 18, 10);
+  ctx.fillStyle = colors.nose;
+  ctx.beginPath();
+  ctx.moveTo(9, -5);
+  ctx.lineTo(16, 0);
+  ctx.lineTo(9, 5);
+  ctx.fill();
+  // Warhead caps
+  ctx.fillStyle = colors.detail;
+  [-3, 0, 3].forEach(y => ctx.fillRect(-5, y - 1, 8, 2));
+
+  drawFireTail(ctx, time, -9);
+}
+
+function drawSmartBomb(ctx: CanvasRenderingContext2D, time: number, colors: EnemyColors) {
+  // Pulsing sensor ring
+  ctx.strokeStyle = withAlpha(colors.body, 0.4 + Math.sin(time / 120) * 0.3);
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.arc(0, 0, 12 + Math.sin(time / 120) * 2, 0, Math.PI * 2);
+  ctx.stroke();
+  // Diamond body
+  ctx.fillStyle = colors.body;
+  ctx.beginPath();
+  ctx.moveTo(0, -8);
+  ctx.lineTo(7, 0);
+  ctx.lineTo(0, 8);
+  ctx.lineTo(-7, 0);
+  ctx.closePath();
+  ctx.fill();
+  ctx.fillStyle = colors.detail;
+  ctx.fillRect(-2, -2, 4, 4);
+}
+
+// Shape cue for anything hostile: a hollow triangle pointing down above it
+function drawHazardMarker(ctx: CanvasRenderingContext2D, x: number, y: number, color: string) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(x - 6, y - 20);
+  ctx.lineTo(x + 6, y - 20);
+  ctx.lineTo(x, y - 11);
+  ctx.closePath();
+  ctx.stroke();
+}
+
+// Shape cue for destroyed cities and turrets
+function drawRuinCross(ctx: CanvasRenderingContext2D, x: number, y: number) {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x - 8, y - 14);
+  ctx.lineTo(x + 8, y + 2);
+  ctx.moveTo(x + 8, y - 14);
+  ctx.lineTo(x - 8, y + 2);
+  ctx.stroke();
+}
+
+function drawBomber(ctx: CanvasRenderingContext2D) {
+  // Fuselage
+  ctx.fillStyle = '#8a94a6';
+  ctx.beginPath();
+  ctx.moveTo(22, 0);
+  ctx.lineTo(14, -4);
+  ctx.lineTo(-20, -4);
+  ctx.lineTo(-22, 0);
+  ctx.lineTo(-20, 4);
+  ctx.lineTo(14, 4);
+  ctx.closePath();
+  ctx.fill();
+  // Wings and tail
+  ctx.fillStyle = '#5d6676';
+  ctx.beginPath();
+  ctx.moveTo(4, 0);
+  ctx.lineTo(-8, 14);
+  ctx.lineTo(-12, 14);
+  ctx.lineTo(-6, 0);
+  ctx.closePath();
+  ctx.fill();
+  ctx.fillRect(-22, -10, 5, 8);
+  // Cockpit
+  ctx.fillStyle = '#ff4d4d';
+  ctx.fillRect(12, -3, 5, 3);
+}
+
+function drawSatellite(ctx: CanvasRenderingContext2D, time: number) {
+  // Solar panels
+  ctx.fillStyle = '#2e4a8c';
+  ctx.fillRect(-24, -5, 14, 10);
+  ctx.fillRect(10, -5, 14, 10);
+  ctx.strokeStyle = '#6f8fd8';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(-24, -5, 14, 10);
+  ctx.strokeRect(10, -5, 14, 10);
+  // Body
+  ctx.fillStyle = '#d0d4dc';
+  ctx.fillRect(-8, -6, 16, 12);
+  // Blinking beacon
+  ctx.fillStyle = Math.floor(time / 300) % 2 === 0 ? '#ff3030' : '#551010';
+  ctx.beginPath();
+  ctx.arc(0, -8, 2, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+export const UPGRADE_COLORS: Record<TurretUpgrade, string> = {
+  ammo: '#ffffff',
+  speed: '#5dade2',
+  blast: '#f39c12',
+};
+
+// Colors come from the palette, see InterceptorColors
+export type TurretStyle = {
+  // Horizontal offsets of the barrels from the turret center
+  barrels: number[];
+  barrelWidth: number;
+  barrelLength: number;
+  // Scale of the interceptor body
+  missileSize: number;
+};
+
+export const TURRET_STYLES: Record<TurretArchetype, TurretStyle> = {
+  standard: { barrels: [0], barrelWidth: 5, barrelLength: 18, missileSize: 1 },
+  flak: { barrels: [-4, 4], barrelWidth: 3, barrelLength: 16, missileSize: 0.8 },
+  heavy: { barrels: [0], barrelWidth: 9, barrelLength: 12, missileSize: 1.5 },
+  pointDefense: { barrels: [-5, 0, 5], barrelWidth: 2, barrelLength: 10, missileSize: 0.7 },
+};
+
+// One dot per purchased level, a row per upgrade kind on the turret base
+function drawUpgradePips(ctx: CanvasRenderingContext2D, turret: Turret) {
+  (Object.keys(UPGRADE_COLORS) as TurretUpgrade[]).forEach((kind, row) => {
+    const level = turret.upgrades[kind];
+    ctx.fillStyle = UPGRADE_COLORS[kind];
+    for (let i = 0; i < level; i++) {
+      ctx.beginPath();
+      ctx.arc(turret.x - (level - 1) * 2.5 + i * 5, turret.y - 2 + row * 4, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  });
+}
+
+export const SUPPLY_COLORS: Record<SupplyKind, string> = {
+  ammo: '#f1c40f',
+  shield: '#4ecca3',
+  emp: '#5dade2',
+  slowMo: '#c39bd3',
+};
+
+// Each kind of crate carries its own symbol, so they do not depend on color alone
+function drawSupplyGlyph(ctx: CanvasRenderingContext2D, kind: SupplyKind) {
+  ctx.strokeStyle = '#10131a';
+  ctx.fillStyle = '#10131a';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  switch (kind) {
+    case 'ammo':
+      for (const x of [-3, 0, 3]) {
+        ctx.moveTo(x, 3);
+        ctx.lineTo(x, -3);
+      }
+      ctx.stroke();
+      break;
+    case 'shield':
+      ctx.arc(0, 3, 5, Math.PI, Math.PI * 2);
+      ctx.stroke();
+      break;
+    case 'emp':
+      ctx.moveTo(1, -5);
+      ctx.lineTo(-3, 1);
+      ctx.lineTo(1, 0);
+      ctx.lineTo(-1, 5);
+      ctx.lineTo(3, -1);
+      ctx.lineTo(-1, 0);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'slowMo':
+      ctx.arc(0, 0, 4, 0, Math.PI * 2);
+      ctx.moveTo(0, 0);
+      ctx.lineTo(0, -3);
+      ctx.moveTo(0, 0);
+      ctx.lineTo(2, 1);
+      ctx.stroke();
+      break;
+  }
+}
+
+// A crate hanging from a parachute, swaying as it falls
+function drawCrate(ctx: CanvasRenderingContext2D, crate: SupplyCrate, time: number) {
+  ctx.save();
+  ctx.translate(crate.x, crate.y);
+  ctx.rotate(Math.sin(time / 400 + crate.id) * 0.15);
+  // Canopy and lines
+  ctx.fillStyle = 'rgba(236, 240, 241, 0.85)';
+  ctx.beginPath();
+  ctx.arc(0, -18, 12, Math.PI, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(236, 240, 241, 0.6)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(-12, -18);
+  ctx.lineTo(-6, -6);
+  ctx.moveTo(12, -18);
+  ctx.lineTo(6, -6);
+  ctx.stroke();
+  // Box
+  ctx.fillStyle = SUPPLY_COLORS[crate.kind];
+  ctx.fillRect(-7, -6, 14, 12);
+  drawSupplyGlyph(ctx, crate.kind);
+  ctx.restore();
+}
+
+// Adds the flown part of a path, from its start up to the entity at (x, y),
+// in `segments` pieces over the whole flight. Offsets from the drawn path
+// (evasion, wind drift) were built up along the way, so they are blended in
+// from nothing at the start to their full size at the head.
+function tracePath(ctx: CanvasRenderingContext2D, shape: PathShape, progress: number, x: number, y: number, segments: number) {
+  ctx.moveTo(shape.startX, shape.startY);
+  const head = pathPoint(shape, progress);
+  const offsetX = x - head.x;
+  const offsetY = y - head.y;
+  const steps = shape.path === 'straight' ? 1 : Math.max(1, Math.ceil(progress * segments));
+  const point = { x: 0, y: 0 };
+  for (let i = 1; i < steps; i++) {
+    const share = i / steps;
+    pathPoint(shape, progress * share, point);
+    ctx.lineTo(point.x + offsetX * share, point.y + offsetY * share);
+  }
+  ctx.lineTo(x, y);
+}
+
+// An arrow in the top right corner showing where the wind blows and how hard
+function drawWindIndicator(ctx: CanvasRenderingContext2D, { x, y }: { x: number; y: number }) {
+  const strength = Math.hypot(x, y);
+  if (strength < 0.01) return;
+  const length = 8 + strength * 60;
+  ctx.save();
+  ctx.translate(GAME_WIDTH - 40, 24);
+  ctx.rotate(Math.atan2(y, x));
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(-length / 2, 0);
+  ctx.lineTo(length / 2, 0);
+  ctx.moveTo(length / 2 - 5, -4);
+  ctx.lineTo(length / 2, 0);
+  ctx.lineTo(length / 2 - 5, 4);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Above this many rockets or explosions, they are drawn in a few batched
+// paths instead of one gradient-filled shape each (swarm mode)
+export const DETAIL_LIMIT = 150;
+
+function drawRocketsFast(ctx: CanvasRenderingContext2D, rockets: Rocket[], { palette, shapeCues }: RenderTheme) {
+  const kinds = Object.keys(palette.enemies) as EnemyKind[];
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([5, 5]);
+  kinds.forEach(kind => {
+    ctx.strokeStyle = withAlpha(palette.enemies[kind].trail, trailAlpha(kind));
+    ctx.beginPath();
+    rockets.forEach(rocket => {
+      if (rocket.kind === kind) tracePath(ctx, rocket, rocket.progress, rocket.x, rocket.y, 6);
+    });
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  // Heads become small downward triangles as a shape cue
+  kinds.forEach(kind => {
+    ctx.fillStyle = palette.enemies[kind].body;
+    ctx.beginPath();
+    rockets.forEach(rocket => {
+      if (rocket.kind !== kind) return;
+      if (shapeCues) {
+        ctx.moveTo(rocket.x - 3, rocket.y - 3);
+        ctx.lineTo(rocket.x + 3, rocket.y - 3);
+        ctx.lineTo(rocket.x, rocket.y + 3);
+        ctx.closePath();
+      } else {
+        ctx.rect(rocket.x - 2, rocket.y - 2, 4, 4);
+      }
+    });
+    ctx.fill();
+  });
+}
+
+function drawExplosionsFast(ctx: CanvasRenderingContext2D, explosions: Explosion[], { palette, reducedMotion }: RenderTheme) {
+  const { middle, edge } = palette.explosion;
+  const layers: [string, number][] = reducedMotion
+    ? [[withAlpha(middle, 0.3), 1]]
+    : [[withAlpha(edge, 0.35), 1], [withAlpha(middle, 0.8), 0.5]];
+  layers.forEach(([color, scale]) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    explosions.forEach(exp => {
+      const r = Math.max(0, exp.radius * scale);
+      ctx.moveTo(exp.x + r, exp.y);
+      ctx.arc(exp.x, exp.y, r, 0, Math.PI * 2);
+    });
+    ctx.fill();
+  });
+}
+
+// Everything that never changes during a game: sky, moon, stars and ground.
+// The renderer caches it in an offscreen canvas.
+export function drawBackground(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, stars: Star[], ground: number[]) {
+  // Background
+  ctx.fillStyle = '#05050a';
+  ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+
+  // Draw Nebula/Galaxy Effect
+  const nebulaGradient = ctx.createRadialGradient(GAME_WIDTH/2, GAME_HEIGHT/2, 0, GAME_WIDTH/2, GAME_HEIGHT/2, GAME_WIDTH);
+  nebulaGradient.addColorStop(0, 'rgba(40, 20, 80, 0.15)');
+  nebulaGradient.addColorStop(0.5, 'rgba(20, 10, 40, 0.05)');
+  nebulaGradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = nebulaGradient;
+  ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+
+  // Draw Moon
+  ctx.save();
+  ctx.shadowBlur = 30;
+  ctx.shadowColor = 'rgba(200, 200, 255, 0.4)';
+  ctx.fillStyle = '#e0e0e0';
+  ctx.beginPath();
+  ctx.arc(650, 100, 45, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  // Moon Craters
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.08)';
+  const craters = [[630, 85, 8], [670, 110, 12], [645, 120, 6], [660, 80, 5]];
+  craters.forEach(([cx, cy, cr]) => {
+    ctx.beginPath();
+    ctx.arc(cx, cy, cr, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.restore();
+
+  // Draw Stars
+  stars.forEach(star => {
+    ctx.fillStyle = `rgba(${star.opacity > 0.8 ? '255,255,255' : '200,220,255'}, ${0.4 + star.opacity * 0.6})`;
+    ctx.beginPath();
+    ctx.arc(star.x, star.y, star.size * 1.3, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  // Draw Ground, one segment per control point
+  ctx.fillStyle = '#0a0a15';
+  ctx.beginPath();
+  ctx.moveTo(0, GAME_HEIGHT);
+  ground.forEach((_, i) => {
+    const x = (i / (ground.length - 1)) * GAME_WIDTH;
+    ctx.lineTo(x, groundY(ground, x));
+  });
+  ctx.lineTo(GAME_WIDTH, GAME_HEIGHT);
+  ctx.closePath();
+  ctx.fill();
+}
+
+// Cities, turrets and everything in flight. Rockets and explosions switch to
+// the batched drawing once there are more than `detailLimit` of them.
+export function drawWorld(
+  ctx: CanvasRenderingContext2D,
+  state: SimulationState,
+  frameTime: number,
+  detailLimit = DETAIL_LIMIT,
+  theme: RenderTheme = DEFAULT_THEME,
+) {
+  const { palette, shapeCues } = theme;
+  // Animations are functions of time, so a fixed time holds them still
+  const time = theme.reducedMotion ? 0 : frameTime;
+
+  drawWindIndicator(ctx, state.wind);
+
+  // The slow-motion field tints the whole sky
+  if (state.slowMoMs > 0) {
+    ctx.fillStyle = withAlpha(SUPPLY_COLORS.slowMo, 0.08);
+    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+  }
+
+  // A ready EMP marks the line it clears rockets above
+  const emp = state.specials.emp;
+  if (emp.charges > 0 && emp.cooldownMs === 0) {
+    ctx.strokeStyle = withAlpha(SUPPLY_COLORS.emp, 0.25);
+    ctx.lineWidth = 1;
+    ctx.setLineDash([8, 8]);
+    ctx.beginPath();
+    ctx.moveTo(0, EMP_CEILING);
+    ctx.lineTo(GAME_WIDTH, EMP_CEILING);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  // Draw Cities
+  state.cities.forEach(city => {
+    if (!city.destroyed) {
+      ctx.fillStyle = palette.city.body;
+      ctx.fillRect(city.x - 15, city.y - 15, 30, 15);
+      ctx.fillStyle = palette.city.roof;
+      ctx.fillRect(city.x - 10, city.y - 25, 20, 10);
+      // Windows
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.fillRect(city.x - 12, city.y - 12, 4, 4);
+      ctx.fillRect(city.x + 8, city.y - 12, 4, 4);
+    } else {
+      ctx.fillStyle = palette.ruins.city;
+      ctx.fillRect(city.x - 15, city.y - 5, 30, 5);
+      if (shapeCues) drawRuinCross(ctx, city.x, city.y);
+    }
+  });
+
+  // Shield domes over the standing cities, flickering in the last two seconds
+  if (state.shieldMs > 0 && (state.shieldMs > 2000 || Math.floor(time / 150) % 2 === 0)) {
+    ctx.strokeStyle = withAlpha(SUPPLY_COLORS.shield, 0.7);
+    ctx.fillStyle = withAlpha(SUPPLY_COLORS.shield, 0.1);
+    ctx.lineWidth = 2;
+    state.cities.forEach(city => {
+      if (city.destroyed) return;
+      ctx.beginPath();
+      ctx.arc(city.x, city.y, 30, Math.PI, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+  }
+
+  // Draw Turrets
+  state.turrets.forEach(turret => {
+    if (!turret.destroyed) {
+      const style = TURRET_STYLES[turret.archetype];
+      const colors = palette.interceptors[turret.archetype];
+      const { cooldownMs, range } = TURRET_ARCHETYPES[turret.archetype];
+
+      // Short-range batteries show how far up they reach
+      if (range !== null) {
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([2, 6]);
+        ctx.beginPath();
+        ctx.arc(turret.x, turret.y, range, Math.PI, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      ctx.fillStyle = colors.body;
+      ctx.beginPath();
+      ctx.moveTo(turret.x - 20, turret.y + 10);
+      ctx.lineTo(turret.x + 20, turret.y + 10);
+      ctx.lineTo(turret.x, turret.y - 20);
+      ctx.closePath();
+      ctx.fill();
+      
+      // Turret barrels: longer with speed upgrades, wider with blast upgrades
+      ctx.strokeStyle = colors.barrel;
+      ctx.lineWidth = style.barrelWidth + turret.upgrades.blast * 1.5;
+      ctx.beginPath();
+      for (const offset of style.barrels) {
+        ctx.moveTo(turret.x + offset, turret.y - 10);
+        ctx.lineTo(turret.x + offset, turret.y - 10 - style.barrelLength - turret.upgrades.speed * 4);
+      }
+      ctx.stroke();
+
+      drawUpgradePips(ctx, turret);
+
+      // Ammo count
+      ctx.fillStyle = 'white';
+      ctx.font = 'bold 10px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(turret.ammo.toString(), turret.x, turret.y + 25);
+
+      // Reload bar, shrinking until the turret can fire again
+      if (turret.cooldownMs > 0) {
+        ctx.fillStyle = colors.body;
+        ctx.fillRect(turret.x - 12, turret.y + 28, 24 * Math.min(1, turret.cooldownMs / cooldownMs), 2);
+      }
+    } else {
+      ctx.fillStyle = palette.ruins.turret;
+      ctx.fillRect(turret.x - 12, turret.y - 5, 24, 15);
+      if (shapeCues) drawRuinCross(ctx, turret.x, turret.y + 5);
+    }
+  });
+
+  // Draw Rockets (Enemy)
+  if (state.rockets.length > detailLimit) {
+    drawRocketsFast(ctx, state.rockets, theme);
+  } else {
+    state.rockets.forEach(rocket => {
+      const colors = palette.enemies[rocket.kind];
+      // Trail
+      ctx.strokeStyle = withAlpha(colors.trail, trailAlpha(rocket.kind));
+      ctx.lineWidth = rocket.kind === 'warhead' ? 1.5 : 2.5;
+      ctx.beginPath();
+      ctx.setLineDash([5, 5]);
+      tracePath(ctx, rocket, rocket.progress, rocket.x, rocket.y, 24);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const angle = pathHeading(rocket, rocket.progress);
+
+      ctx.save();
+      ctx.translate(rocket.x, rocket.y);
+      ctx.rotate(angle);
+      switch (rocket.kind) {
+        case 'mirv':
+          drawMirv(ctx, time, colors);
+          break;
+        case 'smart':
+          ctx.rotate(-angle);
+          drawSmartBomb(ctx, time, colors);
+          break;
+        case 'warhead':
+          ctx.scale(0.6, 0.6);
+          drawRocketBody(ctx, time, colors);
+          break;
+        default:
+          drawRocketBody(ctx, time, colors);
+      }
+      ctx.restore();
+      if (shapeCues) drawHazardMarker(ctx, rocket.x, rocket.y, colors.body);
+    });
+  }
+
+  // Draw Aircraft (Enemy)
+  state.aircraft.forEach(plane => {
+    ctx.save();
+    ctx.translate(plane.x, plane.y);
+    if (plane.vx < 0) ctx.scale(-1, 1);
+    if (plane.kind === 'bomber') {
+      drawBomber(ctx);
+    } else {
+      drawSatellite(ctx, time);
+    }
+    ctx.restore();
+    if (shapeCues) drawHazardMarker(ctx, plane.x, plane.y - 4, palette.enemies.rocket.body);
+  });
+
+  state.crates.forEach(crate => drawCrate(ctx, crate, time));
+
+  // Draw Missiles
+  state.missiles.forEach(missile => {
+    const { archetype } = state.turrets[missile.turretId];
+    const style = TURRET_STYLES[archetype];
+    const colors = palette.interceptors[archetype];
+    // Trail
+    ctx.strokeStyle = withAlpha(colors.trail, 0.4);
+    ctx.lineWidth = 3 * style.missileSize;
+    ctx.beginPath();
+    tracePath(ctx, missile, missile.progress, missile.x, missile.y, 16);
+    ctx.stroke();
+
+    // Missile Body
+    const angle = pathHeading(missile, missile.progress);
+
+    ctx.save();
+    ctx.translate(missile.x, missile.y);
+    ctx.rotate(angle);
+    ctx.scale(style.missileSize, style.missileSize);
+    
+    // Missile shape
+    ctx.fillStyle = '#ecf0f1';
+    ctx.fillRect(-6, -2, 12, 4); // Thicker body
+    ctx.fillStyle = colors.body;
+    ctx.beginPath();
+    ctx.moveTo(6, -2);
+    ctx.lineTo(10, 0);
+    ctx.lineTo(6, 2);
+    ctx.fill();
+    
+    // Engine glow
+    ctx.fillStyle = '#f1c40f';
+    ctx.beginPath();
+    ctx.arc(-7, 0, 3, 0, Math.PI * 2);
+    ctx.fill();
+    
+    ctx.restore();
+
+    // Friendly shape cue: a ring around the interceptor
+    if (shapeCues) {
+      ctx.strokeStyle = colors.body;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(missile.x, missile.y, 9 * style.missileSize, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Target X
+    ctx.strokeStyle = colors.body;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(missile.targetX - 5, missile.targetY - 5);
+    ctx.lineTo(missile.targetX + 5, missile.targetY + 5);
+    ctx.moveTo(missile.targetX + 5, missile.targetY - 5);
+    ctx.lineTo(missile.targetX - 5, missile.targetY + 5);
+    ctx.stroke();
+  });
+
+  // Draw Explosions
+  if (state.explosions.length > detailLimit) {
+    drawExplosionsFast(ctx, state.explosions, theme);
+  } else {
+    const { core, middle, edge } = palette.explosion;
+    state.explosions.forEach(exp => {
+      if (theme.reducedMotion) {
+        // A soft disc with a rim instead of the white flash
+        ctx.fillStyle = withAlpha(middle, 0.3);
+        ctx.strokeStyle = withAlpha(edge, 0.6);
+        ctx.lineWidth = 1.5;
+      } else {
+        const gradient = ctx.createRadialGradient(exp.x, exp.y, 0, exp.x, exp.y, exp.radius);
+        gradient.addColorStop(0, core);
+        gradient.addColorStop(0.4, withAlpha(middle, 0.8));
+        gradient.addColorStop(1, withAlpha(edge, 0));
+        ctx.fillStyle = gradient;
+      }
+      ctx.beginPath();
+      ctx.arc(exp.x, exp.y, Math.max(0, exp.radius), 0, Math.PI * 2);
+      ctx.fill();
+      if (theme.reducedMotion) ctx.stroke();
+
+      // Ground impacts and their chains get a dashed outline as a shape cue
+      if (shapeCues && exp.turretId === null) {
+        ctx.strokeStyle = withAlpha(edge, 0.9);
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 4]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    });
+  }
+}
+
+export function drawCrosshair(ctx: CanvasRenderingContext2D, x: number, y: number, time: number) {
+  const pulse = 10 + Math.sin(time / 150) * 1.5;
+  ctx.save();
+  ctx.strokeStyle = 'rgba(78, 204, 163, 0.9)';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.arc(x, y, pulse, 0, Math.PI * 2);
+  ctx.moveTo(x - pulse - 6, y);
+  ctx.lineTo(x - pulse + 4, y);
+  ctx.moveTo(x + pulse - 4, y);
+  ctx.lineTo(x + pulse + 6, y);
+  ctx.moveTo(x, y - pulse - 6);
+  ctx.lineTo(x, y - pulse + 4);
+  ctx.moveTo(x, y + pulse - 4);
+  ctx.lineTo(x, y + pulse + 6);
+  ctx.stroke();
+  ctx.restore();
+}
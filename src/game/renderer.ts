@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from './constants';
+import { DEFAULT_LAYOUT } from './layout';
+import { DEFAULT_THEME, DETAIL_LIMIT, createStars, drawBackground, drawCrosshair, drawWorld, type RenderTheme, type Star } from './render';
+import type { SimulationEvent, SimulationState } from './types';
+
+// 'low' renders at one backing pixel per CSS pixel and always uses the
+// batched rocket and explosion drawing
+export type RenderQuality = 'high' | 'low';
+
+const QUALITY_KEY = 'nova-defense:graphics-quality';
+
+// Machines with very few cores start in low quality until the player changes it
+export function loadRenderQuality(): RenderQuality {
+  const saved = localStorage.getItem(QUALITY_KEY);
+  if (saved === 'high' || saved === 'low') return saved;
+  return (navigator.hardwareConcurrency ?? 4) <= 2 ? 'low' : 'high';
+}
+
+export function saveRenderQuality(quality: RenderQuality) {
+  localStorage.setItem(QUALITY_KEY, quality);
+}
+
+export type HudOptions = {
+  crosshair: { x: number; y: number } | null;
+};
+
+type Frame = { state: SimulationState; time: number; hud: HudOptions };
+
+// Floating "+points" text left where an enemy was destroyed
+type ScorePopup = { x: number; y: number; text: string; color: string; born: number };
+
+const POPUP_LIFETIME_MS = 900;
+const POPUP_RISE = 28;
+// Big chain reactions would otherwise bury the screen in text
+const MAX_POPUPS = 40;
+
+/**
+ * Draws the game in three layers onto one canvas:
+ * - background: sky, moon, stars and ground, pre-rendered into an offscreen
+ *   canvas that is only regenerated when the backing size or the ground changes
+ * - world: cities, turrets, enemies, missiles and explosions
+ * - HUD: score popups and the crosshair
+ *
+ * The backing store follows the element's CSS size times devicePixelRatio;
+ * drawing always happens in GAME_WIDTH x GAME_HEIGHT game coordinates.
+ */
+export class Renderer {
+  private readonly ctx: CanvasRenderingContext2D;
+  private background: OffscreenCanvas | null = null;
+  private ground = DEFAULT_LAYOUT.ground;
+  // Compared against each frame's ground to notice a different layout
+  private groundKey = '';
+  private scale = 1;
+  private lastFrame: Frame | null = null;
+  private popups: ScorePopup[] = [];
+  private theme = DEFAULT_THEME;
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private quality: RenderQuality,
+    private readonly stars: Star[] = createStars(),
+  ) {
+    this.ctx = canvas.getContext('2d')!;
+    this.resize();
+  }
+
+  setQuality(quality: RenderQuality) {
+    if (quality === this.quality) return;
+    this.quality = quality;
+    this.resize(true);
+  }
+
+  setTheme(theme: RenderTheme) {
+    this.theme = theme;
+    if (this.lastFrame) this.render(this.lastFrame.state, this.lastFrame.time, this.lastFrame.hud);
+  }
+
+  // Matches the backing store to the element size; redraws the last frame
+  // because resizing a canvas clears it
+  resize(force = false) {
+    const cssWidth = this.canvas.getBoundingClientRect().width || GAME_WIDTH;
+    const dpr = this.quality === 'low' ? 1 : window.devicePixelRatio || 1;
+    const width = Math.round(cssWidth * dpr);
+    const height = Math.round((width * GAME_HEIGHT) / GAME_WIDTH);
+    if (!force && this.background && width === this.canvas.width && height === this.canvas.height) return;
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.scale = width / GAME_WIDTH;
+
+    this.background = new OffscreenCanvas(width, height);
+    this.paintBackground(this.ground);
+
+    if (this.lastFrame) this.render(this.lastFrame.state, this.lastFrame.time, this.lastFrame.hud);
+  }
+
+  // Keeps the backing store in sync with layout and zoom changes. Returns a cleanup function.
+  observe(): () => void {
+    const observer = new ResizeObserver(() => this.resize());
+    observer.observe(this.canvas);
+    // Zooming changes devicePixelRatio without necessarily resizing the element
+    const onResize = () => this.resize();
+    window.addEventListener('resize', onResize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', onResize);
+    };
+  }
+
+  // Adds a score popup for every kill among `events`; `time` is the frame time passed to render
+  addPopups(events: SimulationEvent[], time: number) {
+    for (const event of events) {
+      if (event.type !== 'rocketDestroyed' && event.type !== 'aircraftDestroyed') continue;
+      const chained = event.multiplier > 1;
+      this.popups.push({
+        x: event.x,
+        y: event.y,
+        text: chained ? `+${event.points} ×${event.multiplier}` : `+${event.points}`,
+        color: chained ? '#fbbf24' : '#e5e7eb',
+        born: time,
+      });
+    }
+    if (this.popups.length > MAX_POPUPS) this.popups.splice(0, this.popups.length - MAX_POPUPS);
+  }
+
+  clearPopups() {
+    this.popups = [];
+  }
+
+  render(state: SimulationState, time: number, hud: HudOptions = { crosshair: null }) {
+    const ctx = this.ctx;
+    this.lastFrame = { state, time, hud };
+    if (state.ground.join(',') !== this.groundKey) this.paintBackground(state.ground);
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(this.background!, 0, 0);
+
+    ctx.setTransform(this.scale, 0, 0, this.scale, 0, 0);
+    drawWorld(ctx, state, time, this.quality === 'low' ? 0 : DETAIL_LIMIT, this.theme);
+
+    this.drawPopups(time);
+    if (hud.crosshair) drawCrosshair(ctx, hud.crosshair.x, hud.crosshair.y, this.theme.reducedMotion ? 0 : time);
+  }
+
+  private paintBackground(ground: number[]) {
+    this.ground = ground;
+    this.groundKey = ground.join(',');
+    const bg = this.background!.getContext('2d')!;
+    bg.setTransform(this.scale, 0, 0, this.scale, 0, 0);
+    drawBackground(bg, this.stars, ground);
+  }
+
+  private drawPopups(time: number) {
+    this.popups = this.popups.filter(popup => time - popup.born < POPUP_LIFETIME_MS);
+    if (this.popups.length === 0) return;
+
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'center';
+    for (const popup of this.popups) {
+      const age = Math.max(0, time - popup.born) / POPUP_LIFETIME_MS;
+      ctx.globalAlpha = 1 - age;
+      ctx.fillStyle = popup.color;
+      // With reduced motion popups only fade
+      ctx.fillText(popup.text, popup.x, popup.y - (this.theme.reducedMotion ? 0 : age * POPUP_RISE));
+    }
+    ctx.restore();
+  }
+}
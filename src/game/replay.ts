@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FIXED_STEP_MS } from './constants';
+import { LayoutFormatError, readLayout, validateLayout, type Layout } from './layout';
+import { GAME_MODES } from './modes';
+import { UPGRADES } from './shop';
+import { GameSimulation } from './simulation';
+import { SPECIAL_WEAPONS } from './supplies';
+import type { Difficulty, GameMode, PlayerCommand, SimulationEvent, SimulationState } from './types';
+
+// v2: waves wait in the shop for a 'continue' command
+// v3: chain multiplier scoring, which changes scores and so what the shop allows
+// v4: turret archetypes with their own missiles, reload times and ranges
+// v5: games on editor layouts, which carry the layout along
+// v6: supply drops and special weapons
+// v7: curved paths, wind, and impacts hitting whatever they land on
+export const REPLAY_VERSION = 7;
+
+// Longest game a replay may cover. The player simulates the whole game up front,
+// so a forged endTick on a game that never ends would otherwise hang the page.
+export const MAX_REPLAY_TICKS = (60 * 60 * 1000) / FIXED_STEP_MS;
+
+// A command stamped with the simulation tick it was issued before
+export type ReplayInput = PlayerCommand & { tick: number };
+
+export type Replay = {
+  version: number;
+  seed: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  // Played with the adaptive director on top of `difficulty`'s script
+  adaptive: boolean;
+  // Null for the built-in layout
+  layout: Layout | null;
+  // Slowest game speed any part of the game was played at
+  gameSpeed: number;
+  inputs: ReplayInput[];
+  endTick: number;
+  score: number;
+  wave: number;
+  recordedAt: string;
+};
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+/**
+ * Wraps command dispatch during a live game and keeps every command that
+ * changed the simulation, stamped with its tick. A resumed game passes in the
+ * inputs recorded before it was saved, so its replay still starts at tick 0,
+ * or null when those inputs are lost and the game cannot have a replay.
+ */
+export class ReplayRecorder {
+  constructor(
+    private readonly sim: GameSimulation,
+    readonly inputs: ReplayInput[] | null = [],
+    public gameSpeed = 1,
+  ) {}
+
+  // Called for every stretch of play, since the speed can change mid-game
+  noteGameSpeed(speed: number) {
+    this.gameSpeed = Math.min(this.gameSpeed, speed);
+  }
+
+  dispatch(command: PlayerCommand): boolean {
+    const applied = this.sim.dispatch(command);
+    if (applied) this.inputs?.push({ ...command, tick: this.sim.state.tick });
+    return applied;
+  }
+
+  finish(): Replay | null {
+    if (!this.inputs) return null;
+    const { seed, mode, difficulty, director, layout, tick, score, wave } = this.sim.state;
+    return {
+      version: REPLAY_VERSION,
+      seed,
+      mode,
+      difficulty,
+      adaptive: director !== null,
+      layout,
+      gameSpeed: this.gameSpeed,
+      inputs: [...this.inputs],
+      endTick: tick,
+      score,
+      wave,
+      recordedAt: new Date().toISOString(),
+    };
+  }
+}
+
+type Checkpoint = { state: SimulationState; inputIndex: number };
+
+/**
+ * Re-runs a replay tick by tick. On construction the whole game is simulated
+ * once headlessly to find where each wave starts; a snapshot is kept at every
+ * wave start so seeking only re-simulates from the closest one.
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  // waveStarts[n] is the tick at which wave n + 1 begins
+  readonly waveStarts: number[] = [];
+  sim: GameSimulation;
+  private inputIndex = 0;
+  private checkpoints: Checkpoint[] = [];
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.sim = GameSimulation.create({
+      seed: replay.seed,
+      difficulty: replay.difficulty,
+      mode: replay.mode,
+      adaptive: replay.adaptive,
+      layout: replay.layout,
+    });
+
+    this.saveCheckpoint();
+    while (!this.isFinished) {
+      const events = this.step();
+      if (events.some(e => e.type === 'waveStarted')) this.saveCheckpoint();
+    }
+    this.seekToWave(1);
+  }
+
+  get tick(): number {
+    return this.sim.state.tick;
+  }
+
+  get isFinished(): boolean {
+    return this.sim.isOver || this.sim.state.tick >= this.replay.endTick;
+  }
+
+  step(): SimulationEvent[] {
+    const { inputs } = this.replay;
+    while (this.inputIndex < inputs.length && inputs[this.inputIndex].tick <= this.sim.state.tick) {
+      const { tick: _tick, ...command } = inputs[this.inputIndex++];
+      this.sim.dispatch(command);
+    }
+    return this.sim.step();
+  }
+
+  seekToWave(wave: number) {
+    const checkpoint = this.checkpoints[Math.max(0, Math.min(wave, this.checkpoints.length) - 1)];
+    this.sim = new GameSimulation(structuredClone(checkpoint.state));
+    this.inputIndex = checkpoint.inputIndex;
+  }
+
+  private saveCheckpoint() {
+    this.waveStarts.push(this.sim.state.tick);
+    this.checkpoints.push({ state: structuredClone(this.sim.state), inputIndex: this.inputIndex });
+  }
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+function isValidInput(input: unknown): boolean {
+  if (typeof input !== 'object' || input === null) return false;
+  const i = input as Record<string, unknown>;
+  if (typeof i.tick !== 'number') return false;
+  switch (i.type) {
+    case 'fire':
+      return typeof i.x === 'number'
+        && typeof i.y === 'number'
+        && (i.turrets === undefined || (Array.isArray(i.turrets) && i.turrets.every((id: unknown) => typeof id === 'number')));
+    case 'buy':
+      return typeof i.upgrade === 'string' && Object.hasOwn(UPGRADES, i.upgrade) && typeof i.targetId === 'number';
+    case 'special':
+      return typeof i.weapon === 'string' && Object.hasOwn(SPECIAL_WEAPONS, i.weapon);
+    case 'continue':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function parseReplay(text: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('Replay file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) throw new ReplayFormatError('Replay must be a JSON object');
+
+  const r = data as Record<string, unknown>;
+  if (r.version !== REPLAY_VERSION) throw new ReplayFormatError(`Unsupported replay version: ${String(r.version)}`);
+  if (typeof r.seed !== 'number') throw new ReplayFormatError('Replay is missing a numeric "seed"');
+  if (r.difficulty !== 'EASY' && r.difficulty !== 'NORMAL' && r.difficulty !== 'HARD') {
+    throw new ReplayFormatError(`Unknown difficulty: ${String(r.difficulty)}`);
+  }
+  // Replays recorded before game modes existed are classic games
+  const mode = r.mode ?? 'classic';
+  if (!Object.hasOwn(GAME_MODES, mode as string)) throw new ReplayFormatError(`Unknown game mode: ${String(mode)}`);
+  if (typeof r.endTick !== 'number') throw new ReplayFormatError('Replay is missing a numeric "endTick"');
+  if (!Number.isInteger(r.endTick) || r.endTick < 0 || r.endTick > MAX_REPLAY_TICKS) {
+    throw new ReplayFormatError(`Replay length is out of range: ${r.endTick} ticks`);
+  }
+  if (!Array.isArray(r.inputs)) throw new ReplayFormatError('Replay is missing the "inputs" list');
+  r.inputs.forEach((input, i) => {
+    if (!isValidInput(input)) throw new ReplayFormatError(`Input #${i + 1} is not a valid command`);
+  });
+  let layout: Layout | null = null;
+  try {
+    if (r.layout != null) layout = readLayout(r.layout);
+  } catch (error) {
+    if (error instanceof LayoutFormatError) throw new ReplayFormatError(error.message);
+    throw error;
+  }
+  if (layout && validateLayout(layout).length > 0) throw new ReplayFormatError('Replay layout is not a valid layout');
+
+  return {
+    version: r.version,
+    seed: r.seed,
+    mode: mode as GameMode,
+    difficulty: r.difficulty,
+    adaptive: r.adaptive === true,
+    layout,
+    gameSpeed: typeof r.gameSpeed === 'number' ? r.gameSpeed : 1,
+    inputs: r.inputs as ReplayInput[],
+    endTick: r.endTick,
+    score: typeof r.score === 'number' ? r.score : 0,
+    wave: typeof r.wave === 'number' ? r.wave : 1,
+    recordedAt: typeof r.recordedAt === 'string' ? r.recordedAt : '',
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// mulberry32: tiny, fast and good enough for gameplay. The whole generator
+// state is a single 32-bit integer so it serializes with the rest of the game.
+export type RngState = { value: number };
+
+export function createRng(seed: number): RngState {
+  return { value: seed >>> 0 };
+}
+
+export function nextFloat(rng: RngState): number {
+  rng.value = (rng.value + 0x6d2b79f5) >>> 0;
+  let t = rng.value;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function nextInt(rng: RngState, maxExclusive: number): number {
+  return Math.floor(nextFloat(rng) * maxExclusive);
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
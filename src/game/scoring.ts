@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Difficulty } from './types';
+
+// Kills in the same chain (everything set off by one interceptor or impact)
+// score more the further along the chain they happen
+export type ScoringConfig = {
+  // Added to the multiplier for every kill after the first in a chain
+  chainStep: number;
+  maxMultiplier: number;
+};
+
+export const SCORING: Record<Difficulty, ScoringConfig> = {
+  EASY: { chainStep: 0.25, maxMultiplier: 3 },
+  NORMAL: { chainStep: 0.5, maxMultiplier: 4 },
+  HARD: { chainStep: 0.5, maxMultiplier: 6 },
+};
+
+// `chain` is the 1-based position of the kill within its chain
+export function chainMultiplier(config: ScoringConfig, chain: number): number {
+  return Math.min(config.maxMultiplier, 1 + (chain - 1) * config.chainStep);
+}
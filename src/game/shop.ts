@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SimulationState, Turret, UpgradeKind } from './types';
+
+export type UpgradeConfig = {
+  basePrice: number;
+  // Each purchase of the same kind multiplies the next price by this
+  priceGrowth: number;
+  // What the upgrade is bought for
+  target: 'turret' | 'city';
+  // Per-target cap on the upgrade level; Infinity for repairs
+  maxLevel: number;
+};
+
+export const UPGRADES: Record<UpgradeKind, UpgradeConfig> = {
+  repairTurret: { basePrice: 600, priceGrowth: 1.5, target: 'turret', maxLevel: Infinity },
+  rebuildCity: { basePrice: 500, priceGrowth: 1.5, target: 'city', maxLevel: Infinity },
+  ammo: { basePrice: 150, priceGrowth: 1.4, target: 'turret', maxLevel: 4 },
+  speed: { basePrice: 250, priceGrowth: 1.6, target: 'turret', maxLevel: 3 },
+  blast: { basePrice: 300, priceGrowth: 1.6, target: 'turret', maxLevel: 3 },
+};
+
+export const AMMO_PER_UPGRADE = 5;
+export const SPEED_PER_LEVEL = 0.25;
+export const BLAST_PER_LEVEL = 0.2;
+
+export function missileSpeedFor(turret: Turret, baseSpeed: number): number {
+  return baseSpeed * (1 + SPEED_PER_LEVEL * turret.upgrades.speed);
+}
+
+export function blastRadiusFor(turret: Turret, baseRadius: number): number {
+  return baseRadius * (1 + BLAST_PER_LEVEL * turret.upgrades.blast);
+}
+
+export function upgradePrice(state: SimulationState, kind: UpgradeKind): number {
+  const { basePrice, priceGrowth } = UPGRADES[kind];
+  return Math.round(basePrice * Math.pow(priceGrowth, state.purchases[kind]) / 10) * 10;
+}
+
+export type PurchaseCheck = { ok: true; price: number } | { ok: false; reason: 'closed' | 'invalid' | 'maxed' | 'funds' };
+
+export function checkPurchase(state: SimulationState, kind: UpgradeKind, targetId: number): PurchaseCheck {
+  if (!state.shopOpen) return { ok: false, reason: 'closed' };
+  const config = UPGRADES[kind];
+  const price = upgradePrice(state, kind);
+
+  if (config.target === 'city') {
+    const city = state.cities.find(c => c.id === targetId);
+    if (!city || !city.destroyed) return { ok: false, reason: 'invalid' };
+  } else {
+    const turret = state.turrets.find(t => t.id === targetId);
+    if (!turret) return { ok: false, reason: 'invalid' };
+    if (kind === 'repairTurret') {
+      if (!turret.destroyed) return { ok: false, reason: 'invalid' };
+    } else {
+      // Upgrades need a working battery
+      if (turret.destroyed) return { ok: false, reason: 'invalid' };
+      if (turret.upgrades[kind as 'ammo' | 'speed' | 'blast'] >= config.maxLevel) return { ok: false, reason: 'maxed' };
+    }
+  }
+
+  if (state.score < price) return { ok: false, reason: 'funds' };
+  return { ok: true, price };
+}
+
+// Applies a purchase that passed checkPurchase
+export function applyPurchase(state: SimulationState, kind: UpgradeKind, targetId: number, price: number) {
+  state.score -= price;
+  state.purchases[kind]++;
+
+  if (kind === 'rebuildCity') {
+    state.cities.find(c => c.id === targetId)!.destroyed = false;
+    return;
+  }
+
+  const turret = state.turrets.find(t => t.id === targetId)!;
+  switch (kind) {
+    case 'repairTurret':
+      turret.destroyed = false;
+      turret.ammo = turret.maxAmmo;
+      break;
+    case 'ammo':
+      turret.upgrades.ammo++;
+      turret.maxAmmo += AMMO_PER_UPGRADE;
+      turret.ammo = turret.maxAmmo;
+      break;
+    case 'speed':
+      turret.upgrades.speed++;
+      break;
+    case 'blast':
+      turret.upgrades.blast++;
+      break;
+  }
+}
@@ -0,0 +1,861 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AMMO_BONUS,
+  CITY_BONUS,
+  FIXED_STEP_MS,
+  GAME_HEIGHT,
+  GAME_WIDTH,
+  WAVE_TRANSITION_MS,
+} from './constants';
+import {
+  AIRCRAFT_HIT_RADIUS,
+  AIRCRAFT_TYPES,
+  MIRV_SPLIT_RANGE,
+  MIRV_WARHEADS,
+  ROCKET_TYPES,
+  SMART_EVADE_ACCEL,
+  SMART_EVADE_MAX,
+  SMART_EVADE_RANGE,
+  rocketSpeed,
+} from './enemies';
+import { adjustPlan, createDirector, evaluateWave, recordKill, recordShot, resetTally } from './director';
+import { DEFAULT_LAYOUT, groundY, labelTurrets, structureAt, type Layout } from './layout';
+import { GAME_MODES, type ModeConfig } from './modes';
+import { SCORING, chainMultiplier } from './scoring';
+import { applyPurchase, blastRadiusFor, checkPurchase, missileSpeedFor } from './shop';
+import { SpatialGrid } from './spatial';
+import { createStats, recordStats } from './stats';
+import {
+  CRATE_DRIFT,
+  CRATE_FALL_SPEED,
+  CRATE_HIT_RADIUS,
+  EMP_CEILING,
+  FIRST_SUPPLY_DROP_MS,
+  SHIELD_MS,
+  SLOW_MO_MS,
+  SPECIAL_WEAPONS,
+  SUPPLY_AMMO,
+  SUPPLY_DROP_INTERVAL_MS,
+  SUPPLY_WEIGHTS,
+  createSpecials,
+  enemyTimeScale,
+} from './supplies';
+import { CURVED_PATHS_FROM_WAVE, WIND_DRIFT_DECAY, pathPoint, rollPathShape, rollWind, type Point } from './trajectories';
+import { TURRET_ARCHETYPES, inRange } from './turrets';
+import { planWave, type SpawnKind, type WaveScript } from './waves';
+import { createRng, nextFloat, nextInt, type RngState } from './rng';
+import type {
+  AircraftKind,
+  City,
+  Difficulty,
+  EnemyKind,
+  Explosion,
+  ExplosionCause,
+  GameMode,
+  Missile,
+  PathKind,
+  PlayerCommand,
+  Rocket,
+  SimulationEvent,
+  SimulationState,
+  SpecialWeapon,
+  SupplyCrate,
+  SupplyKind,
+  Turret,
+  UpgradeKind,
+} from './types';
+
+export type SimulationOptions = {
+  seed: number;
+  difficulty: Difficulty;
+  mode?: GameMode;
+  // Lets the director rescale waves; `difficulty` then only picks the base script
+  adaptive?: boolean;
+  // A layout from the editor; the built-in one when omitted
+  layout?: Layout | null;
+};
+
+const IMPACT_BLAST_RADIUS = 30;
+const CHAIN_BLAST_RADIUS = 40;
+// Roughly the largest upgraded blast, so most queries touch at most 3x3 cells
+const GRID_CELL_SIZE = 64;
+// Recycled entities kept per kind; anything beyond is left to the garbage collector
+const MAX_POOL_SIZE = 4096;
+
+export function createInitialState({ seed, difficulty, mode = 'classic', adaptive = false, layout = null }: SimulationOptions): SimulationState {
+  const wavePlan = planWave(GAME_MODES[mode].script(difficulty), 1);
+  const { turrets, cities, ground } = layout ?? DEFAULT_LAYOUT;
+  // Ids follow screen order, so battery keys and labels run left to right
+  const sortedTurrets = [...turrets].sort((a, b) => a.x - b.x);
+  const labels = labelTurrets(sortedTurrets.map(t => t.x));
+  const rng = createRng(seed);
+  const wind = rollWind(rng, 1);
+  return {
+    seed,
+    rng,
+    tick: 0,
+    playTimeMs: 0,
+    nextId: 1,
+    mode,
+    difficulty,
+    status: 'PLAYING',
+    score: 0,
+    wave: 1,
+    wavePlan,
+    waveElapsedMs: 0,
+    spawnTimer: 0,
+    rocketsSpawnedInWave: 0,
+    totalRocketsInWave: wavePlan.enemies,
+    burstsFired: 0,
+    waveTransitionTimer: 0,
+    shopOpen: false,
+    purchases: { repairTurret: 0, rebuildCity: 0, ammo: 0, speed: 0, blast: 0 },
+    director: adaptive ? createDirector(cities.length) : null,
+    stats: createStats(turrets.length),
+    chains: {},
+    rockets: [],
+    aircraft: [],
+    missiles: [],
+    explosions: [],
+    crates: [],
+    wind,
+    supplyTimer: FIRST_SUPPLY_DROP_MS,
+    shieldMs: 0,
+    slowMoMs: 0,
+    specials: createSpecials(),
+    layout,
+    ground: [...ground],
+    turrets: sortedTurrets.map((turret, id) => ({
+      id,
+      x: turret.x,
+      y: groundY(ground, turret.x) - 10,
+      ammo: turret.ammo,
+      maxAmmo: turret.ammo,
+      label: labels[id],
+      archetype: turret.archetype,
+      cooldownMs: 0,
+      destroyed: false,
+      upgrades: { ammo: 0, speed: 0, blast: 0 },
+    })),
+    cities: [...cities].sort((a, b) => a - b).map((x, id) => ({
+      id,
+      x,
+      y: groundY(ground, x),
+      destroyed: false,
+    })),
+  };
+}
+
+/**
+ * Headless, deterministic game rules. Given the same seed, difficulty and
+ * sequence of player commands at the same ticks, `step()` always produces
+ * the same state. Nothing in here touches the DOM or wall-clock time.
+ *
+ * Rockets, missiles and explosions are plain objects so the state stays
+ * serializable, but dead ones are compacted out in place and recycled
+ * through per-instance pools instead of being reallocated every tick.
+ */
+export class GameSimulation {
+  state: SimulationState;
+  // Distance checks made during the last step, for the performance overlay
+  collisionChecks = 0;
+  // Events raised between ticks (player input) are delivered with the next step
+  private pendingEvents: SimulationEvent[] = [];
+  private rocketPool: Rocket[] = [];
+  private missilePool: Missile[] = [];
+  private explosionPool: Explosion[] = [];
+  private rocketGrid = new SpatialGrid(GAME_WIDTH, GAME_HEIGHT, GRID_CELL_SIZE);
+  // Scratch point for path positions, so moving entities allocates nothing
+  private point: Point = { x: 0, y: 0 };
+
+  constructor(state: SimulationState) {
+    this.state = state;
+  }
+
+  static create(options: SimulationOptions): GameSimulation {
+    return new GameSimulation(createInitialState(options));
+  }
+
+  get modeConfig(): ModeConfig {
+    return GAME_MODES[this.state.mode];
+  }
+
+  get script(): WaveScript {
+    return this.modeConfig.script(this.state.difficulty);
+  }
+
+  // True for the whole gap between waves, shop included
+  get isWaveTransition(): boolean {
+    return this.state.waveTransitionTimer > 0 || this.state.shopOpen;
+  }
+
+  // Remaining play time in timed modes, null otherwise
+  get timeLeftMs(): number | null {
+    const { timeLimitMs } = this.modeConfig;
+    return timeLimitMs === null ? null : Math.max(0, timeLimitMs - this.state.playTimeMs);
+  }
+
+  get isOver(): boolean {
+    return this.state.status !== 'PLAYING';
+  }
+
+  get enemyTimeScale(): number {
+    return enemyTimeScale(this.state);
+  }
+
+  // Applies a player command. Returns false when it had no effect.
+  dispatch(command: PlayerCommand): boolean {
+    switch (command.type) {
+      case 'fire':
+        return this.fireMissile(command.x, command.y, command.turrets) !== null;
+      case 'buy':
+        return this.buyUpgrade(command.upgrade, command.targetId);
+      case 'special':
+        return this.fireSpecial(command.weapon);
+      case 'continue':
+        return this.closeShop();
+    }
+  }
+
+  buyUpgrade(upgrade: UpgradeKind, targetId: number): boolean {
+    if (this.isOver) return false;
+    const check = checkPurchase(this.state, upgrade, targetId);
+    if (!check.ok) return false;
+    applyPurchase(this.state, upgrade, targetId, check.price);
+    this.pendingEvents.push({ type: 'upgradePurchased', upgrade, targetId, price: check.price });
+    return true;
+  }
+
+  // Leaves the shop; the next wave starts on the following step
+  closeShop(): boolean {
+    if (this.isOver || !this.state.shopOpen) return false;
+    this.state.shopOpen = false;
+    this.startNextWave(this.pendingEvents);
+    return true;
+  }
+
+  // Fires from the closest turret (by X) that has ammo, has reloaded and can
+  // reach the target, limited to `turretIds` when given. Returns the launching
+  // turret, or null when the shot was not possible.
+  fireMissile(targetX: number, targetY: number, turretIds?: number[]): Turret | null {
+    const s = this.state;
+    if (this.isOver || this.isWaveTransition) return null;
+
+    let bestTurret: Turret | null = null;
+    let minDist = Infinity;
+    for (const turret of s.turrets) {
+      if (turretIds && !turretIds.includes(turret.id)) continue;
+      if (turret.destroyed || turret.ammo === 0 || turret.cooldownMs > 0) continue;
+      if (!inRange(turret.archetype, turret.x, turret.y, targetX, targetY)) continue;
+      const dist = Math.abs(turret.x - targetX);
+      if (dist < minDist) {
+        minDist = dist;
+        bestTurret = turret;
+      }
+    }
+    if (!bestTurret) return null;
+
+    const archetype = TURRET_ARCHETYPES[bestTurret.archetype];
+    bestTurret.ammo--;
+    bestTurret.cooldownMs = archetype.cooldownMs;
+    if (s.director) recordShot(s.director);
+    const missile = this.missilePool.pop() ?? createMissile();
+    missile.id = s.nextId++;
+    missile.startX = missile.x = bestTurret.x;
+    missile.startY = missile.y = bestTurret.y;
+    missile.targetX = targetX;
+    missile.targetY = targetY;
+    missile.speed = missileSpeedFor(bestTurret, archetype.missileSpeed);
+    missile.progress = 0;
+    missile.path = archetype.arc > 0 ? 'ballistic' : 'straight';
+    missile.curve = archetype.arc;
+    missile.cycles = 0;
+    missile.blastRadius = blastRadiusFor(bestTurret, archetype.blastRadius);
+    missile.turretId = bestTurret.id;
+    missile.active = true;
+    s.missiles.push(missile);
+    this.pendingEvents.push({ type: 'missileLaunched', turretId: bestTurret.id, targetX, targetY });
+    return bestTurret;
+  }
+
+  // Uses up a charge of a special weapon. Returns false while it has no charge or is cooling down.
+  fireSpecial(weapon: SpecialWeapon): boolean {
+    const s = this.state;
+    const special = s.specials[weapon];
+    if (this.isOver || this.isWaveTransition || special.charges === 0 || special.cooldownMs > 0) return false;
+
+    special.charges--;
+    special.cooldownMs = SPECIAL_WEAPONS[weapon].cooldownMs;
+    let detonated = 0;
+    if (weapon === 'emp') {
+      for (const rocket of s.rockets) {
+        if (!rocket.active || rocket.y >= EMP_CEILING) continue;
+        const exp = this.addExplosion(rocket.x, rocket.y, CHAIN_BLAST_RADIUS, 'emp', this.pendingEvents, null);
+        this.killRocket(rocket, exp, this.pendingEvents);
+        detonated++;
+      }
+    } else {
+      s.slowMoMs = SLOW_MO_MS;
+    }
+    this.pendingEvents.push({ type: 'specialUsed', weapon, detonated });
+    return true;
+  }
+
+  // Advances the game by exactly one FIXED_STEP_MS tick.
+  step(): SimulationEvent[] {
+    const s = this.state;
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    this.collisionChecks = 0;
+    if (this.isOver) return events;
+
+    s.tick++;
+    if (!s.shopOpen) s.playTimeMs += FIXED_STEP_MS;
+    for (const turret of s.turrets) turret.cooldownMs = Math.max(0, turret.cooldownMs - FIXED_STEP_MS);
+    for (const special of Object.values(s.specials)) special.cooldownMs = Math.max(0, special.cooldownMs - FIXED_STEP_MS);
+    s.shieldMs = Math.max(0, s.shieldMs - FIXED_STEP_MS);
+    s.slowMoMs = Math.max(0, s.slowMoMs - FIXED_STEP_MS);
+
+    if (s.waveTransitionTimer > 0) {
+      s.waveTransitionTimer = Math.max(0, s.waveTransitionTimer - FIXED_STEP_MS);
+      if (s.waveTransitionTimer === 0) {
+        s.shopOpen = true;
+        events.push({ type: 'shopOpened', wave: s.wave });
+      }
+    } else if (!s.shopOpen) {
+      const plan = s.wavePlan;
+      s.waveElapsedMs += FIXED_STEP_MS;
+      // Slow motion holds back the next enemy as well as the ones on screen
+      s.spawnTimer += FIXED_STEP_MS * this.enemyTimeScale;
+
+      if (this.modeConfig.supplyDrops) {
+        s.supplyTimer -= FIXED_STEP_MS;
+        if (s.supplyTimer <= 0) {
+          this.dropCrate(events);
+          s.supplyTimer = randomBetween(s.rng, SUPPLY_DROP_INTERVAL_MS);
+        }
+      }
+
+      if (s.spawnTimer > plan.spawnIntervalMs && s.rocketsSpawnedInWave < s.totalRocketsInWave) {
+        this.spawnEnemy(this.pickSpawnKind(), events);
+        s.rocketsSpawnedInWave++;
+        s.spawnTimer = 0;
+      }
+
+      while (s.burstsFired < plan.bursts.length && plan.bursts[s.burstsFired].atMs <= s.waveElapsedMs) {
+        const burst = plan.bursts[s.burstsFired++];
+        for (let i = 0; i < burst.count; i++) this.spawnEnemy(burst.kind, events);
+      }
+
+      const allSpawned = s.rocketsSpawnedInWave >= s.totalRocketsInWave && s.burstsFired >= plan.bursts.length;
+      if (allSpawned && s.rockets.length === 0 && s.aircraft.length === 0) this.completeWave(events);
+    }
+
+    this.updateRockets(events);
+    this.updateAircraft(events);
+    this.updateCrates();
+    this.updateMissiles(events);
+    this.updateExplosions(events);
+
+    compact(s.rockets, this.rocketPool);
+    compact(s.aircraft, null);
+    compact(s.crates, null);
+    compact(s.missiles, this.missilePool);
+    compact(s.explosions, this.explosionPool);
+
+    const { winScore, timeLimitMs, loseWhen } = this.modeConfig;
+    const defenseless = s.turrets.every(t => t.destroyed);
+    if (defenseless && (loseWhen === 'turrets' || s.cities.every(c => c.destroyed))) {
+      s.status = 'LOST';
+    } else if (winScore !== null && s.score >= winScore) {
+      s.status = 'WON';
+    } else if (timeLimitMs !== null && s.playTimeMs >= timeLimitMs) {
+      s.status = 'WON';
+    }
+    if (this.isOver) events.push({ type: 'gameOver', status: s.status as 'WON' | 'LOST' });
+
+    recordStats(s.stats, events, s);
+    return events;
+  }
+
+  // Awards the end-of-wave bonuses so they can be spent in the shop
+  private completeWave(events: SimulationEvent[]) {
+    const s = this.state;
+    let ammoBonus = 0;
+    let cityBonus = 0;
+
+    if (s.director) {
+      const living = s.turrets.filter(t => !t.destroyed);
+      const capacity = living.reduce((sum, t) => sum + t.maxAmmo, 0);
+      const ammoLeft = capacity > 0 ? living.reduce((sum, t) => sum + t.ammo, 0) / capacity : 0;
+      const citiesAlive = s.cities.filter(c => !c.destroyed).length;
+      const decision = evaluateWave(s.director, s.wave, ammoLeft, citiesAlive, planWave(this.script, s.wave + 1));
+      events.push({ type: 'directorDecision', decision });
+    }
+
+    // Bonus points for remaining ammo, then refill
+    s.turrets.forEach(t => {
+      if (!t.destroyed) {
+        ammoBonus += t.ammo * AMMO_BONUS;
+        t.ammo = t.maxAmmo;
+      }
+    });
+    s.cities.forEach(c => {
+      if (!c.destroyed) cityBonus += CITY_BONUS;
+    });
+    s.score += ammoBonus + cityBonus;
+    // Crates still in the air cannot be caught between waves
+    s.crates.forEach(crate => (crate.active = false));
+    // No enemies are left, so no chain can continue into the next wave
+    s.chains = {};
+    s.waveTransitionTimer = WAVE_TRANSITION_MS;
+    events.push({ type: 'waveComplete', wave: s.wave, ammoBonus, cityBonus });
+  }
+
+  private startNextWave(events: SimulationEvent[]) {
+    const s = this.state;
+    s.wave += 1;
+    s.wavePlan = planWave(this.script, s.wave);
+    if (s.director) {
+      s.wavePlan = adjustPlan(s.wavePlan, s.director.intensity);
+      resetTally(s.director, s.cities.filter(c => !c.destroyed).length);
+    }
+    s.waveElapsedMs = 0;
+    s.spawnTimer = 0;
+    s.rocketsSpawnedInWave = 0;
+    s.totalRocketsInWave = s.wavePlan.enemies;
+    s.burstsFired = 0;
+    s.wind = rollWind(s.rng, s.wave);
+    events.push({ type: 'waveStarted', wave: s.wave });
+  }
+
+  private pickSpawnKind(): SpawnKind {
+    return pickWeighted(this.state.rng, this.state.wavePlan.mix);
+  }
+
+  // Straight until curved paths are in play, then weighted by the rocket type
+  private pickPath(kind: EnemyKind): PathKind {
+    if (this.state.wave < CURVED_PATHS_FROM_WAVE) return 'straight';
+    return pickWeighted(this.state.rng, ROCKET_TYPES[kind].paths);
+  }
+
+  private spawnEnemy(kind: SpawnKind, events: SimulationEvent[]) {
+    const s = this.state;
+    if (kind === 'bomber' || kind === 'satellite') {
+      this.spawnAircraft(kind, events);
+    } else {
+      const target = this.pickTarget();
+      if (target) this.spawnRocket(kind, nextFloat(s.rng) * GAME_WIDTH, 0, target, events);
+    }
+  }
+
+  // Weighted by the wave's target preferences; `exclude` is avoided while other targets remain
+  private pickTarget(exclude: (City | Turret)[] = []): City | Turret | null {
+    const s = this.state;
+    const { city, turret } = s.wavePlan.targets;
+    const alive = [
+      ...s.cities.filter(c => !c.destroyed).map(target => ({ target, weight: city })),
+      ...s.turrets.filter(t => !t.destroyed).map(target => ({ target, weight: turret })),
+    ];
+    const preferred = alive.filter(({ target, weight }) => weight > 0 && !exclude.includes(target));
+    const candidates = preferred.length > 0 ? preferred : alive;
+    if (candidates.length === 0) return null;
+
+    const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+    if (total === 0) return candidates[nextInt(s.rng, candidates.length)].target;
+    let roll = nextFloat(s.rng) * total;
+    return (candidates.find(c => (roll -= c.weight) < 0) ?? candidates[candidates.length - 1]).target;
+  }
+
+  private spawnRocket(
+    kind: EnemyKind,
+    startX: number,
+    startY: number,
+    target: City | Turret,
+    events: SimulationEvent[],
+    path = this.pickPath(kind),
+  ) {
+    const s = this.state;
+    const { curve, cycles } = rollPathShape(s.rng, path, target.y - startY);
+    const id = s.nextId++;
+    const rocket = this.rocketPool.pop() ?? createRocket();
+    rocket.id = id;
+    rocket.kind = kind;
+    rocket.startX = rocket.x = startX;
+    rocket.startY = rocket.y = startY;
+    rocket.targetX = target.x;
+    rocket.targetY = target.y;
+    rocket.speed = rocketSpeed(kind, s.wave, this.script.difficulty) * s.wavePlan.speedMultiplier;
+    rocket.progress = 0;
+    rocket.path = path;
+    rocket.curve = curve;
+    rocket.cycles = cycles;
+    rocket.points = ROCKET_TYPES[kind].points;
+    rocket.splitAt = kind === 'mirv' ? randomBetween(s.rng, MIRV_SPLIT_RANGE) : null;
+    rocket.evadeX = 0;
+    rocket.driftX = 0;
+    rocket.active = true;
+    s.rockets.push(rocket);
+    events.push({ type: 'rocketSpawned', rocketId: id });
+  }
+
+  private spawnAircraft(kind: AircraftKind, events: SimulationEvent[]) {
+    const s = this.state;
+    const config = AIRCRAFT_TYPES[kind];
+    const fromLeft = nextFloat(s.rng) < 0.5;
+    const speed = config.speed * config.speedScale[this.script.difficulty] * s.wavePlan.speedMultiplier;
+    const id = s.nextId++;
+
+    s.aircraft.push({
+      id,
+      kind,
+      x: fromLeft ? -30 : GAME_WIDTH + 30,
+      y: randomBetween(s.rng, config.altitude),
+      vx: fromLeft ? speed : -speed,
+      points: config.points,
+      dropsLeft: config.drops,
+      dropTimer: config.dropIntervalMs * (0.5 + nextFloat(s.rng)),
+      active: true,
+    });
+    events.push({ type: 'aircraftSpawned', aircraftId: id, kind });
+  }
+
+  private updateRockets(events: SimulationEvent[]) {
+    const s = this.state;
+    const timeScale = this.enemyTimeScale;
+    // Iterate over a fixed length: warheads added by a MIRV split start moving next tick
+    const count = s.rockets.length;
+    for (let i = 0; i < count; i++) {
+      const rocket = s.rockets[i];
+      if (!rocket.active) continue;
+
+      rocket.progress += rocket.speed * timeScale;
+      if (rocket.kind === 'smart') this.evade(rocket);
+      rocket.driftX = rocket.driftX * WIND_DRIFT_DECAY + s.wind.x * ROCKET_TYPES[rocket.kind].windScale * timeScale;
+      const point = pathPoint(rocket, rocket.progress, this.point);
+      rocket.x = point.x + rocket.evadeX * (1 - rocket.progress) + rocket.driftX;
+      rocket.y = point.y;
+
+      if (rocket.splitAt !== null && rocket.progress >= rocket.splitAt) {
+        this.splitMirv(rocket, events);
+      } else if (rocket.progress >= 1) {
+        rocket.active = false;
+        if (!this.modeConfig.shieldedGround) this.hitGround(rocket, events);
+        this.addExplosion(rocket.x, rocket.y, IMPACT_BLAST_RADIUS, 'impact', events, null);
+      }
+    }
+  }
+
+  // Destroys whatever the rocket came down on, which need not be what it was aimed at
+  private hitGround(rocket: Rocket, events: SimulationEvent[]) {
+    const s = this.state;
+    const hit = structureAt(s.cities, s.turrets, rocket.x, rocket.y);
+    if (!hit) return;
+    if ('ammo' in hit) {
+      hit.destroyed = true;
+      events.push({ type: 'turretDestroyed', turretId: hit.id });
+    } else if (s.shieldMs > 0) {
+      events.push({ type: 'cityShielded', cityId: hit.id });
+    } else {
+      hit.destroyed = true;
+      events.push({ type: 'cityDestroyed', cityId: hit.id });
+    }
+  }
+
+  // Smart bombs are pushed sideways by nearby growing explosions; the offset
+  // fades out with progress so they still land on their target.
+  private evade(rocket: Rocket) {
+    for (const exp of this.state.explosions) {
+      if (!exp.growing) continue;
+      const dx = rocket.x - exp.x;
+      const dy = rocket.y - exp.y;
+      const range = exp.radius + SMART_EVADE_RANGE;
+      if (dx * dx + dy * dy < range * range) {
+        rocket.evadeX += (dx >= 0 ? 1 : -1) * SMART_EVADE_ACCEL;
+      }
+    }
+    rocket.evadeX = Math.max(-SMART_EVADE_MAX, Math.min(SMART_EVADE_MAX, rocket.evadeX * 0.99));
+  }
+
+  private splitMirv(rocket: Rocket, events: SimulationEvent[]) {
+    const s = this.state;
+    rocket.active = false;
+    const count = MIRV_WARHEADS[0] + nextInt(s.rng, MIRV_WARHEADS[1] - MIRV_WARHEADS[0] + 1);
+    const chosen: (City | Turret)[] = [];
+    for (let i = 0; i < count; i++) {
+      const target = this.pickTarget(chosen);
+      if (!target) break;
+      chosen.push(target);
+      this.spawnRocket('warhead', rocket.x, rocket.y, target, events);
+    }
+    events.push({ type: 'mirvSplit', rocketId: rocket.id, warheads: chosen.length });
+  }
+
+  private updateAircraft(events: SimulationEvent[]) {
+    const s = this.state;
+    const timeScale = this.enemyTimeScale;
+    s.aircraft.forEach(plane => {
+      plane.x += plane.vx * timeScale;
+      plane.dropTimer -= FIXED_STEP_MS * timeScale;
+
+      const overField = plane.x > 40 && plane.x < GAME_WIDTH - 40;
+      if (overField && plane.dropsLeft > 0 && plane.dropTimer <= 0) {
+        const target = this.pickTarget();
+        // Dropped bombs fall in an arc from the plane instead of flying down at a fixed speed
+        if (target) this.spawnRocket('rocket', plane.x, plane.y, target, events, 'ballistic');
+        plane.dropsLeft--;
+        plane.dropTimer = AIRCRAFT_TYPES[plane.kind].dropIntervalMs;
+      }
+
+      if (plane.x < -40 || plane.x > GAME_WIDTH + 40) plane.active = false;
+    });
+  }
+
+  private dropCrate(events: SimulationEvent[]) {
+    const s = this.state;
+    const kind = pickWeighted<SupplyKind>(s.rng, SUPPLY_WEIGHTS);
+    const id = s.nextId++;
+    s.crates.push({
+      id,
+      kind,
+      x: 80 + nextFloat(s.rng) * (GAME_WIDTH - 160),
+      y: -20,
+      vx: (nextFloat(s.rng) * 2 - 1) * CRATE_DRIFT,
+      active: true,
+    });
+    events.push({ type: 'crateDropped', crateId: id, kind });
+  }
+
+  // Crates that reach the ground or drift off screen are lost
+  private updateCrates() {
+    const s = this.state;
+    s.crates.forEach(crate => {
+      crate.x += crate.vx + s.wind.x;
+      crate.y += CRATE_FALL_SPEED;
+      if (crate.x < 0 || crate.x > GAME_WIDTH || crate.y >= groundY(s.ground, crate.x)) crate.active = false;
+    });
+  }
+
+  private collectCrate(crate: SupplyCrate, events: SimulationEvent[]) {
+    const s = this.state;
+    crate.active = false;
+    switch (crate.kind) {
+      case 'ammo':
+        s.turrets.forEach(t => {
+          if (!t.destroyed) t.ammo = Math.min(t.maxAmmo, t.ammo + SUPPLY_AMMO);
+        });
+        break;
+      case 'shield':
+        s.shieldMs = SHIELD_MS;
+        break;
+      default: {
+        const special = s.specials[crate.kind];
+        special.charges = Math.min(SPECIAL_WEAPONS[crate.kind].maxCharges, special.charges + 1);
+      }
+    }
+    events.push({ type: 'crateCollected', crateId: crate.id, kind: crate.kind, x: crate.x, y: crate.y });
+  }
+
+  private updateMissiles(events: SimulationEvent[]) {
+    this.state.missiles.forEach(missile => {
+      missile.progress += missile.speed;
+      const point = pathPoint(missile, missile.progress, this.point);
+      missile.x = point.x;
+      missile.y = point.y;
+
+      if (missile.progress >= 1) {
+        missile.active = false;
+        this.addExplosion(missile.targetX, missile.targetY, missile.blastRadius, 'missile', events, missile);
+      }
+    });
+  }
+
+  private updateExplosions(events: SimulationEvent[]) {
+    const s = this.state;
+    const rockets = s.rockets;
+    const grid = this.rocketGrid;
+    // Rockets do not move during this pass, so they are bucketed once per tick
+    grid.clear();
+    for (let i = 0; i < rockets.length; i++) {
+      if (rockets[i].active) grid.insert(i, rockets[i].x, rockets[i].y);
+    }
+
+    // Chain explosions spawned below only start colliding on the next tick
+    const count = s.explosions.length;
+    for (let i = 0; i < count; i++) {
+      const exp = s.explosions[i];
+      // Interceptor blast clouds drift with the wind; ground impacts stay where they hit
+      if (exp.turretId !== null) {
+        exp.x += s.wind.x;
+        exp.y += s.wind.y;
+      }
+      if (exp.growing) {
+        exp.radius += 2;
+        if (exp.radius >= exp.maxRadius) exp.growing = false;
+      } else {
+        exp.radius -= 1;
+        if (exp.radius <= 0) exp.active = false;
+      }
+      if (exp.radius <= 0) continue;
+
+      const radiusSq = exp.radius * exp.radius;
+      const found = grid.query(exp.x, exp.y, exp.radius);
+      this.collisionChecks += found;
+      for (let j = 0; j < found; j++) {
+        const rocket = rockets[grid.results[j]];
+        if (!rocket.active) continue;
+        const dx = rocket.x - exp.x;
+        const dy = rocket.y - exp.y;
+        if (dx * dx + dy * dy < radiusSq) {
+          this.killRocket(rocket, exp, events);
+          this.addExplosion(rocket.x, rocket.y, CHAIN_BLAST_RADIUS, 'chain', events, exp);
+        }
+      }
+
+      // Aircraft are few, so they are checked directly
+      const hitRange = exp.radius + AIRCRAFT_HIT_RADIUS;
+      this.collisionChecks += s.aircraft.length;
+      s.aircraft.forEach(plane => {
+        if (!plane.active) return;
+        const dx = plane.x - exp.x;
+        const dy = plane.y - exp.y;
+        if (dx * dx + dy * dy < hitRange * hitRange) {
+          plane.active = false;
+          const { chain, multiplier, points } = this.scoreKill(exp, plane.points);
+          if (s.director) recordKill(s.director, null);
+          events.push({
+            type: 'aircraftDestroyed',
+            aircraftId: plane.id,
+            kind: plane.kind,
+            x: plane.x,
+            y: plane.y,
+            points,
+            explosionId: exp.id,
+            turretId: exp.turretId,
+            chainRoot: exp.chainRoot,
+            chain,
+            multiplier,
+          });
+          this.addExplosion(plane.x, plane.y, CHAIN_BLAST_RADIUS, 'chain', events, exp);
+        }
+      });
+
+      // Only blasts the player set off catch crates, impacts on the ground do not
+      if (exp.turretId === null) continue;
+      const catchRange = exp.radius + CRATE_HIT_RADIUS;
+      this.collisionChecks += s.crates.length;
+      s.crates.forEach(crate => {
+        if (!crate.active) return;
+        const dx = crate.x - exp.x;
+        const dy = crate.y - exp.y;
+        if (dx * dx + dy * dy < catchRange * catchRange) this.collectCrate(crate, events);
+      });
+    }
+  }
+
+  // Credits `exp` with destroying the rocket
+  private killRocket(rocket: Rocket, exp: Explosion, events: SimulationEvent[]) {
+    const s = this.state;
+    rocket.active = false;
+    const { chain, multiplier, points } = this.scoreKill(exp, rocket.points);
+    if (s.director) recordKill(s.director, rocket);
+    events.push({
+      type: 'rocketDestroyed',
+      rocketId: rocket.id,
+      kind: rocket.kind,
+      x: rocket.x,
+      y: rocket.y,
+      points,
+      explosionId: exp.id,
+      turretId: exp.turretId,
+      chainRoot: exp.chainRoot,
+      chain,
+      multiplier,
+    });
+  }
+
+  // Counts a kill towards the explosion's chain and awards its points with the chain multiplier
+  private scoreKill(exp: Explosion, basePoints: number): { chain: number; multiplier: number; points: number } {
+    const s = this.state;
+    const chain = (s.chains[exp.chainRoot] ?? 0) + 1;
+    s.chains[exp.chainRoot] = chain;
+    const multiplier = chainMultiplier(SCORING[s.difficulty], chain);
+    const points = Math.round(basePoints * multiplier);
+    s.score += points;
+    return { chain, multiplier, points };
+  }
+
+  // `source` is the interceptor that detonated, or the explosion whose kill set this one off
+  private addExplosion(
+    x: number,
+    y: number,
+    maxRadius: number,
+    cause: ExplosionCause,
+    events: SimulationEvent[],
+    source: Missile | Explosion | null,
+  ): Explosion {
+    const s = this.state;
+    const id = s.nextId++;
+    const exp = this.explosionPool.pop() ?? createExplosion();
+    exp.id = id;
+    exp.x = x;
+    exp.y = y;
+    exp.radius = 0;
+    exp.maxRadius = maxRadius;
+    exp.growing = true;
+    exp.turretId = source?.turretId ?? null;
+    exp.chainRoot = source && 'chainRoot' in source ? source.chainRoot : id;
+    exp.active = true;
+    s.explosions.push(exp);
+    events.push({ type: 'explosion', explosionId: id, x, y, maxRadius, cause });
+    return exp;
+  }
+}
+
+// Removes inactive entities in place, keeping order, and hands them to `pool` for reuse
+function compact<T extends { active: boolean }>(list: T[], pool: T[] | null) {
+  let kept = 0;
+  for (let i = 0; i < list.length; i++) {
+    const item = list[i];
+    if (item.active) {
+      list[kept++] = item;
+    } else if (pool && pool.length < MAX_POOL_SIZE) {
+      pool.push(item);
+    }
+  }
+  list.length = kept;
+}
+
+// Fresh objects with every field present, so pooled entities keep one shape
+function createRocket(): Rocket {
+  return {
+    id: 0, x: 0, y: 0, active: false, kind: 'rocket', startX: 0, startY: 0, targetX: 0, targetY: 0,
+    speed: 0, progress: 0, path: 'straight', curve: 0, cycles: 0, points: 0, splitAt: null, evadeX: 0, driftX: 0,
+  };
+}
+
+function createMissile(): Missile {
+  return {
+    id: 0, x: 0, y: 0, active: false, startX: 0, startY: 0, targetX: 0, targetY: 0,
+    speed: 0, progress: 0, path: 'straight', curve: 0, cycles: 0, blastRadius: 0, turretId: 0,
+  };
+}
+
+function createExplosion(): Explosion {
+  return { id: 0, x: 0, y: 0, active: false, radius: 0, maxRadius: 0, growing: false, turretId: null, chainRoot: 0 };
+}
+
+// Picks a key with chance proportional to its weight
+function pickWeighted<K extends string>(rng: RngState, weights: Partial<Record<K, number>>): K {
+  const entries = Object.entries(weights) as [K, number][];
+  let roll = nextFloat(rng) * entries.reduce((sum, [, weight]) => sum + weight, 0);
+  return (entries.find(([, weight]) => (roll -= weight) < 0) ?? entries[0])[0];
+}
+
+function randomBetween(rng: RngState, [min, max]: [number, number]): number {
+  return min + nextFloat(rng) * (max - min);
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SimulationEvent, SimulationState } from './types';
+
+export type TurretStats = {
+  shots: number;
+  // Interceptors whose blast, directly or through a chain reaction, destroyed at least one enemy
+  hits: number;
+};
+
+export type WaveStats = {
+  wave: number;
+  durationMs: number;
+  shots: number;
+  hits: number;
+  kills: number;
+  // Enemy rockets and warheads that reached the ground
+  landed: number;
+  // Most enemies destroyed by a single chain of explosions
+  longestChain: number;
+  ammoBonus: number;
+  cityBonus: number;
+  // Score when the wave was cleared, or the current score for the wave in progress
+  score: number;
+};
+
+// Kept on the simulation state, so saved games and replays carry their stats along
+export type GameStats = {
+  // Indexed by turret id
+  turrets: TurretStats[];
+  waves: WaveStats[];
+};
+
+export type StatsSummary = {
+  shots: number;
+  hits: number;
+  accuracy: number;
+  kills: number;
+  landed: number;
+  longestChain: number;
+  durationMs: number;
+};
+
+export function createStats(turretCount: number): GameStats {
+  return {
+    turrets: Array.from({ length: turretCount }, () => ({ shots: 0, hits: 0 })),
+    waves: [createWaveStats(1)],
+  };
+}
+
+function createWaveStats(wave: number): WaveStats {
+  return { wave, durationMs: 0, shots: 0, hits: 0, kills: 0, landed: 0, longestChain: 0, ammoBonus: 0, cityBonus: 0, score: 0 };
+}
+
+// Folds one step's events into the stats; called by the simulation at the end of every step
+export function recordStats(stats: GameStats, events: SimulationEvent[], state: SimulationState) {
+  let wave = stats.waves[stats.waves.length - 1];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'missileLaunched':
+        stats.turrets[event.turretId].shots++;
+        wave.shots++;
+        break;
+      case 'rocketDestroyed':
+      case 'aircraftDestroyed': {
+        wave.kills++;
+        wave.longestChain = Math.max(wave.longestChain, event.chain);
+        if (event.chain === 1 && event.turretId !== null) {
+          stats.turrets[event.turretId].hits++;
+          wave.hits++;
+        }
+        break;
+      }
+      case 'explosion':
+        if (event.cause === 'impact') wave.landed++;
+        break;
+      case 'waveComplete':
+        wave.ammoBonus = event.ammoBonus;
+        wave.cityBonus = event.cityBonus;
+        wave.score = state.score;
+        break;
+      case 'waveStarted':
+        wave = createWaveStats(event.wave);
+        stats.waves.push(wave);
+        break;
+    }
+  }
+
+  wave.durationMs = state.waveElapsedMs;
+  // Shop purchases lower the score, so it is only tracked while the wave runs
+  if (state.waveTransitionTimer === 0 && !state.shopOpen) wave.score = state.score;
+}
+
+export function summarizeStats(stats: GameStats): StatsSummary {
+  const sum = (key: keyof WaveStats) => stats.waves.reduce((total, wave) => total + wave[key], 0);
+  const shots = sum('shots');
+  const hits = sum('hits');
+  return {
+    shots,
+    hits,
+    accuracy: shots > 0 ? hits / shots : 0,
+    kills: sum('kills'),
+    landed: sum('landed'),
+    longestChain: Math.max(0, ...stats.waves.map(wave => wave.longestChain)),
+    durationMs: sum('durationMs'),
+  };
+}
+
+const WAVE_COLUMNS: (keyof WaveStats)[] = [
+  'wave', 'durationMs', 'shots', 'hits', 'kills', 'landed', 'longestChain', 'ammoBonus', 'cityBonus', 'score',
+];
+
+// Two tables separated by a blank line: one row per wave, then one row per turret
+export function statsToCsv(stats: GameStats, turretLabels: string[]): string {
+  const waves = stats.waves.map(wave => WAVE_COLUMNS.map(column => wave[column]).join(','));
+  const turrets = stats.turrets.map((turret, id) => {
+    const accuracy = turret.shots > 0 ? (turret.hits / turret.shots).toFixed(3) : '';
+    return [turretLabels[id] ?? id, turret.shots, turret.hits, accuracy].join(',');
+  });
+  return [WAVE_COLUMNS.join(','), ...waves, '', 'turret,shots,hits,accuracy', ...turrets].join('\n') + '\n';
+}
+
+export function statsToJson(stats: GameStats, turretLabels: string[]): string {
+  return JSON.stringify({
+    summary: summarizeStats(stats),
+    waves: stats.waves,
+    turrets: stats.turrets.map((turret, id) => ({ turret: turretLabels[id] ?? id, ...turret })),
+  }, null, 2);
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT } from './constants';
+import type { SimulationState, SpecialWeapon, SpecialWeaponState, SupplyKind } from './types';
+
+// Wave time before the first crate of a game, then a random gap from the range after each drop
+export const FIRST_SUPPLY_DROP_MS = 12000;
+export const SUPPLY_DROP_INTERVAL_MS: [number, number] = [10000, 18000];
+
+// Relative chance of each crate's contents
+export const SUPPLY_WEIGHTS: Record<SupplyKind, number> = {
+  ammo: 4,
+  shield: 2,
+  emp: 2,
+  slowMo: 2,
+};
+
+// Pixels per tick; crates also drift sideways by up to CRATE_DRIFT
+export const CRATE_FALL_SPEED = 0.45;
+export const CRATE_DRIFT = 0.3;
+// Crates are caught by blasts reaching this close to their center
+export const CRATE_HIT_RADIUS = 10;
+
+// Rounds an ammo crate adds to every standing battery, up to its capacity
+export const SUPPLY_AMMO = 5;
+export const SHIELD_MS = 8000;
+
+export type SpecialWeaponConfig = {
+  // Time after a use before the weapon can be used again
+  cooldownMs: number;
+  // Charges beyond this are lost
+  maxCharges: number;
+};
+
+export const SPECIAL_WEAPONS: Record<SpecialWeapon, SpecialWeaponConfig> = {
+  // Sets off every rocket above EMP_CEILING at once
+  emp: { cooldownMs: 12000, maxCharges: 3 },
+  // Slows every enemy on screen to SLOW_MO_FACTOR for SLOW_MO_MS
+  slowMo: { cooldownMs: 15000, maxCharges: 3 },
+};
+
+export const EMP_CEILING = GAME_HEIGHT / 2;
+export const SLOW_MO_MS = 5000;
+export const SLOW_MO_FACTOR = 0.35;
+
+// Enemies move at this fraction of their speed while the slow-motion field is up
+export function enemyTimeScale(state: SimulationState): number {
+  return state.slowMoMs > 0 ? SLOW_MO_FACTOR : 1;
+}
+
+export function createSpecials(): Record<SpecialWeapon, SpecialWeaponState> {
+  return {
+    emp: { charges: 0, cooldownMs: 0 },
+    slowMo: { charges: 0, cooldownMs: 0 },
+  };
+}
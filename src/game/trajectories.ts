@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { nextFloat, nextInt, type RngState } from './rng';
+import type { PathKind, Wind } from './types';
+
+// Anything that flies from its start to its target as `progress` goes from 0 to 1
+export type PathShape = {
+  startX: number;
+  startY: number;
+  targetX: number;
+  targetY: number;
+  path: PathKind;
+  // 'ballistic': how far the arc rises above the straight line at its middle, in px.
+  // 'weaving': how far the path sways to either side. Unused for 'straight'.
+  curve: number;
+  // Full sways over the flight for 'weaving'; whole numbers, so the path still ends on target
+  cycles: number;
+};
+
+export type Point = { x: number; y: number };
+
+// Enemy arcs rise by this share of their drop, at most a quarter so they never climb:
+// at a quarter the flight starts at the apex and falls like a dropped bomb
+export const BALLISTIC_LOFT: [number, number] = [0.1, 0.25];
+export const WEAVE_AMPLITUDE: [number, number] = [12, 30];
+export const WEAVE_CYCLES: [number, number] = [2, 4];
+// Curved enemy paths only appear from this wave on
+export const CURVED_PATHS_FROM_WAVE = 3;
+
+// Wind strength grows by this much per wave, in px per tick, up to MAX_WIND
+export const WIND_PER_WAVE = 0.03;
+export const MAX_WIND = 0.35;
+// Share of a rocket's wind drift kept each tick, which bounds how far it can be pushed
+export const WIND_DRIFT_DECAY = 0.995;
+
+// Position on the path at `progress`. Written into `out` when given, so the
+// simulation can move thousands of rockets a tick without allocating.
+export function pathPoint(shape: PathShape, progress: number, out: Point = { x: 0, y: 0 }): Point {
+  const dx = shape.targetX - shape.startX;
+  const dy = shape.targetY - shape.startY;
+  out.x = shape.startX + dx * progress;
+  out.y = shape.startY + dy * progress;
+  switch (shape.path) {
+    case 'ballistic':
+      // A parabola through both ends, so height changes like a thrown object's
+      out.y -= 4 * shape.curve * progress * (1 - progress);
+      break;
+    case 'weaving': {
+      // Sways perpendicular to the straight line
+      const length = Math.hypot(dx, dy) || 1;
+      const sway = shape.curve * Math.sin(2 * Math.PI * shape.cycles * progress);
+      out.x -= (dy / length) * sway;
+      out.y += (dx / length) * sway;
+      break;
+    }
+  }
+  return out;
+}
+
+// Direction of travel at `progress`, in radians
+export function pathHeading(shape: PathShape, progress: number): number {
+  if (shape.path === 'straight') return Math.atan2(shape.targetY - shape.startY, shape.targetX - shape.startX);
+  const from = pathPoint(shape, Math.max(0, progress - 0.01));
+  const to = pathPoint(shape, Math.min(1, progress + 0.01));
+  return Math.atan2(to.y - from.y, to.x - from.x);
+}
+
+// `curve` and `cycles` for an enemy flying `drop` px downwards on a path of `kind`
+export function rollPathShape(rng: RngState, kind: PathKind, drop: number): { curve: number; cycles: number } {
+  switch (kind) {
+    case 'ballistic':
+      return { curve: drop * between(rng, BALLISTIC_LOFT), cycles: 0 };
+    case 'weaving':
+      return {
+        curve: between(rng, WEAVE_AMPLITUDE),
+        cycles: WEAVE_CYCLES[0] + nextInt(rng, WEAVE_CYCLES[1] - WEAVE_CYCLES[0] + 1),
+      };
+    default:
+      return { curve: 0, cycles: 0 };
+  }
+}
+
+// Mostly sideways, blowing either way, stronger in later waves
+export function rollWind(rng: RngState, wave: number): Wind {
+  const strength = Math.min(MAX_WIND, wave * WIND_PER_WAVE) * between(rng, [0.5, 1]);
+  const angle = (nextFloat(rng) - 0.5) * 0.6;
+  const side = nextFloat(rng) < 0.5 ? -1 : 1;
+  return { x: side * strength * Math.cos(angle), y: strength * Math.sin(angle) };
+}
+
+function between(rng: RngState, [min, max]: [number, number]): number {
+  return min + nextFloat(rng) * (max - min);
+}
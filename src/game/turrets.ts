@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TurretArchetype } from './types';
+
+// Which archetype sits in each slot is set by TURRET_CONFIGS in ./constants
+
+export type TurretArchetypeConfig = {
+  // Path progress per tick before speed upgrades, so flight time does not depend on distance
+  missileSpeed: number;
+  // Before blast upgrades
+  blastRadius: number;
+  // Time after a launch before the turret can fire again
+  cooldownMs: number;
+  // Before ammo upgrades
+  ammo: number;
+  // Farthest target from the turret it can fire at; null for anywhere on screen
+  range: number | null;
+  // Interceptors lob over a ballistic arc rising this many px above the straight line; 0 flies straight
+  arc: number;
+};
+
+export const TURRET_ARCHETYPES: Record<TurretArchetype, TurretArchetypeConfig> = {
+  // The original interceptor
+  standard: { missileSpeed: 0.04, blastRadius: 50, cooldownMs: 0, ammo: 20, range: null, arc: 0 },
+  // Fast, small blasts, quick to reload
+  flak: { missileSpeed: 0.065, blastRadius: 34, cooldownMs: 250, ammo: 24, range: null, arc: 0 },
+  // Slow mortar shells with a large blast and a long reload
+  heavy: { missileSpeed: 0.022, blastRadius: 85, cooldownMs: 1200, ammo: 12, range: null, arc: 60 },
+  // Rapid fire at whatever comes close
+  pointDefense: { missileSpeed: 0.09, blastRadius: 26, cooldownMs: 120, ammo: 30, range: 260, arc: 0 },
+};
+
+export function inRange(archetype: TurretArchetype, fromX: number, fromY: number, x: number, y: number): boolean {
+  const { range } = TURRET_ARCHETYPES[archetype];
+  return range === null || Math.hypot(x - fromX, y - fromY) <= range;
+}
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DirectorDecision, DirectorState } from './director';
+import type { RngState } from './rng';
+import type { Layout } from './layout';
+import type { GameStats } from './stats';
+import type { WaveDefinition } from './waves';
+
+export type Entity = {
+  id: number;
+  x: number;
+  y: number;
+  active: boolean;
+};
+
+// Warheads are what a MIRV splits into; they are never spawned directly
+export type EnemyKind = 'rocket' | 'mirv' | 'smart' | 'warhead';
+export type AircraftKind = 'bomber' | 'satellite';
+// How rockets and interceptors get from start to target, see ./trajectories
+export type PathKind = 'straight' | 'ballistic' | 'weaving';
+
+// Pushes interceptor blasts and slow rockets, in px per tick; rolled for each wave
+export type Wind = { x: number; y: number };
+
+export type Rocket = Entity & {
+  kind: EnemyKind;
+  startX: number;
+  startY: number;
+  targetX: number;
+  targetY: number;
+  speed: number;
+  progress: number;
+  // Shape of the flight, see PathShape
+  path: PathKind;
+  curve: number;
+  cycles: number;
+  points: number;
+  // MIRVs split once `progress` reaches this value; null for every other kind
+  splitAt: number | null;
+  // Horizontal displacement a smart bomb has built up by dodging explosions
+  evadeX: number;
+  // Horizontal displacement from the wind; unlike evasion it is not steered out before landing, so it can make a rocket miss
+  driftX: number;
+};
+
+// Crosses the screen horizontally, dropping rockets on the way
+export type Aircraft = Entity & {
+  kind: AircraftKind;
+  vx: number;
+  points: number;
+  dropsLeft: number;
+  dropTimer: number;
+};
+
+export type Missile = Entity & {
+  startX: number;
+  startY: number;
+  targetX: number;
+  targetY: number;
+  speed: number;
+  progress: number;
+  path: PathKind;
+  curve: number;
+  cycles: number;
+  // Set from the launching turret's blast upgrade
+  blastRadius: number;
+  turretId: number;
+};
+
+// What set off an explosion: an interceptor, an enemy reaching the ground, a destroyed enemy or an EMP
+export type ExplosionCause = 'missile' | 'impact' | 'chain' | 'emp';
+
+export type Explosion = Entity & {
+  radius: number;
+  maxRadius: number;
+  growing: boolean;
+  // Turret whose interceptor started this chain of explosions; null for ground impacts
+  turretId: number | null;
+  // Id of the first explosion in the chain; chain explosions inherit it from the one that caused them
+  chainRoot: number;
+};
+
+export type SpecialWeapon = 'emp' | 'slowMo';
+// Crates hold ammo for every battery, a city shield or a charge of a special weapon
+export type SupplyKind = 'ammo' | 'shield' | SpecialWeapon;
+
+// Drifts down under a parachute until an explosion catches it or it reaches the ground
+export type SupplyCrate = Entity & {
+  kind: SupplyKind;
+  vx: number;
+};
+
+export type SpecialWeaponState = {
+  charges: number;
+  // Time left before the weapon can be used again
+  cooldownMs: number;
+};
+
+export type TurretArchetype = 'standard' | 'flak' | 'heavy' | 'pointDefense';
+
+export type Turret = {
+  id: number;
+  x: number;
+  y: number;
+  ammo: number;
+  maxAmmo: number;
+  label: string;
+  archetype: TurretArchetype;
+  // Time left before the turret can fire again
+  cooldownMs: number;
+  destroyed: boolean;
+  // Levels bought in the between-wave shop; they survive the turret being destroyed
+  upgrades: Record<TurretUpgrade, number>;
+};
+
+export type City = {
+  id: number;
+  x: number;
+  y: number;
+  destroyed: boolean;
+};
+
+export type TurretUpgrade = 'ammo' | 'speed' | 'blast';
+export type UpgradeKind = TurretUpgrade | 'repairTurret' | 'rebuildCity';
+
+// 'swarm' is a stress test with thousands of enemies per wave
+export type GameMode = 'classic' | 'endless' | 'timeAttack' | 'swarm';
+
+export type GameState = 'START' | 'PLAYING' | 'PAUSED' | 'WON' | 'LOST';
+export type Difficulty = 'EASY' | 'NORMAL' | 'HARD';
+// Pausing is a UI concern: a paused game is simply not stepped
+export type SimulationStatus = 'PLAYING' | 'WON' | 'LOST';
+
+// Plain data only: everything the simulation needs to continue lives here,
+// so it can be cloned with JSON and stepped forward again.
+export type SimulationState = {
+  seed: number;
+  rng: RngState;
+  tick: number;
+  // Time the game has been running outside the shop, for timed modes
+  playTimeMs: number;
+  nextId: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  status: SimulationStatus;
+  score: number;
+  wave: number;
+  // The current wave's rules, resolved from the difficulty's wave script
+  wavePlan: WaveDefinition;
+  waveElapsedMs: number;
+  spawnTimer: number;
+  rocketsSpawnedInWave: number;
+  totalRocketsInWave: number;
+  burstsFired: number;
+  // Remaining ms of the between-wave pause, 0 while a wave is running
+  waveTransitionTimer: number;
+  // Open after the between-wave pause until the player continues
+  shopOpen: boolean;
+  // How often each upgrade was bought this run; prices escalate with it
+  purchases: Record<UpgradeKind, number>;
+  // Set for adaptive difficulty, which scales each wave to the player's performance
+  director: DirectorState | null;
+  stats: GameStats;
+  // Kills so far per chain root (see Explosion.chainRoot) in the current wave
+  chains: Record<number, number>;
+  rockets: Rocket[];
+  aircraft: Aircraft[];
+  missiles: Missile[];
+  explosions: Explosion[];
+  crates: SupplyCrate[];
+  wind: Wind;
+  // Wave time left until the next supply drop
+  supplyTimer: number;
+  // Remaining ms of the city shield and the slow-motion field, 0 when off
+  shieldMs: number;
+  slowMoMs: number;
+  specials: Record<SpecialWeapon, SpecialWeaponState>;
+  // The editor layout the game was started with; null for the built-in one
+  layout: Layout | null;
+  // Ground heights the turrets and cities stand on (see Layout.ground)
+  ground: number[];
+  turrets: Turret[];
+  cities: City[];
+};
+
+// Everything a player can do to the simulation. Commands are the only
+// non-deterministic input, so recording them is enough to replay a game.
+// `turrets` restricts which batteries may fire; omitted means any (closest wins).
+// `buy` targets a turret or city id depending on the upgrade.
+export type PlayerCommand =
+  | { type: 'fire'; x: number; y: number; turrets?: number[] }
+  | { type: 'buy'; upgrade: UpgradeKind; targetId: number }
+  | { type: 'special'; weapon: SpecialWeapon }
+  | { type: 'continue' };
+
+export type SimulationEvent =
+  | { type: 'missileLaunched'; turretId: number; targetX: number; targetY: number }
+  | { type: 'rocketSpawned'; rocketId: number }
+  | {
+      type: 'rocketDestroyed';
+      rocketId: number;
+      kind: EnemyKind;
+      x: number;
+      y: number;
+      // Awarded points, chain multiplier included
+      points: number;
+      // The explosion that caused the kill, its chain's interceptor turret and first explosion
+      explosionId: number;
+      turretId: number | null;
+      chainRoot: number;
+      // 1-based position of this kill within its chain
+      chain: number;
+      multiplier: number;
+    }
+  | { type: 'aircraftSpawned'; aircraftId: number; kind: AircraftKind }
+  | {
+      type: 'aircraftDestroyed';
+      aircraftId: number;
+      kind: AircraftKind;
+      x: number;
+      y: number;
+      points: number;
+      explosionId: number;
+      turretId: number | null;
+      chainRoot: number;
+      chain: number;
+      multiplier: number;
+    }
+  | { type: 'explosion'; explosionId: number; x: number; y: number; maxRadius: number; cause: ExplosionCause }
+  | { type: 'mirvSplit'; rocketId: number; warheads: number }
+  | { type: 'cityDestroyed'; cityId: number }
+  // A rocket hit a city while the shield was up
+  | { type: 'cityShielded'; cityId: number }
+  | { type: 'crateDropped'; crateId: number; kind: SupplyKind }
+  | { type: 'crateCollected'; crateId: number; kind: SupplyKind; x: number; y: number }
+  // `detonated` counts the rockets an EMP set off
+  | { type: 'specialUsed'; weapon: SpecialWeapon; detonated: number }
+  | { type: 'turretDestroyed'; turretId: number }
+  | { type: 'waveComplete'; wave: number; ammoBonus: number; cityBonus: number }
+  | { type: 'directorDecision'; decision: DirectorDecision }
+  | { type: 'shopOpened'; wave: number }
+  | { type: 'upgradePurchased'; upgrade: UpgradeKind; targetId: number; price: number }
+  | { type: 'waveStarted'; wave: number }
+  | { type: 'gameOver'; status: 'WON' | 'LOST' };
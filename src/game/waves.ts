@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import easyScript from './waves/easy.json';
+import normalScript from './waves/normal.json';
+import hardScript from './waves/hard.json';
+import swarmScript from './waves/swarm.json';
+import type { AircraftKind, Difficulty, EnemyKind } from './types';
+
+// Everything a wave can spawn directly (MIRV warheads only come from splits)
+export type SpawnKind = Exclude<EnemyKind, 'warhead'> | AircraftKind;
+export type TargetKind = 'city' | 'turret';
+
+export const SPAWN_KINDS: SpawnKind[] = ['rocket', 'mirv', 'smart', 'bomber', 'satellite'];
+const TARGET_KINDS: TargetKind[] = ['city', 'turret'];
+const DIFFICULTIES: Difficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+// Extra enemies released at once, `atMs` after the wave starts
+export type WaveBurst = {
+  atMs: number;
+  count: number;
+  kind: SpawnKind;
+};
+
+export type WaveDefinition = {
+  // Enemies released one by one at `spawnIntervalMs`, not counting bursts
+  enemies: number;
+  // Relative spawn weights; kinds left out never appear
+  mix: Partial<Record<SpawnKind, number>>;
+  spawnIntervalMs: number;
+  speedMultiplier: number;
+  // Relative weight of each living city or turret when picking a target
+  targets: Record<TargetKind, number>;
+  bursts: WaveBurst[];
+};
+
+// Applied once per wave past the end of `waves`, starting from the last entry
+export type WaveEscalation = {
+  enemies: number;
+  spawnIntervalMs: number;
+  minSpawnIntervalMs: number;
+  speedMultiplier: number;
+};
+
+export type WaveScript = {
+  name: string;
+  // Selects the per-enemy speed scaling in ROCKET_TYPES / AIRCRAFT_TYPES
+  difficulty: Difficulty;
+  waves: WaveDefinition[];
+  escalation: WaveEscalation;
+};
+
+export class WaveScriptError extends Error {
+  constructor(source: string, path: string, problem: string) {
+    super(`${source}: ${path} ${problem}`);
+    this.name = 'WaveScriptError';
+  }
+}
+
+// --- Validation ---
+
+type Json = Record<string, unknown>;
+
+function validator(source: string) {
+  const fail = (path: string, problem: string): never => {
+    throw new WaveScriptError(source, path, problem);
+  };
+
+  const object = (value: unknown, path: string): Json => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'must be an object');
+    return value as Json;
+  };
+
+  const number = (value: unknown, path: string, { min = -Infinity, integer = false } = {}): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, `must be a number, got ${JSON.stringify(value)}`);
+    const n = value as number;
+    if (integer && !Number.isInteger(n)) fail(path, `must be a whole number, got ${n}`);
+    if (n < min) fail(path, `must be >= ${min}, got ${n}`);
+    return n;
+  };
+
+  const oneOf = <T extends string>(value: unknown, options: T[], path: string): T => {
+    if (!options.includes(value as T)) fail(path, `must be one of ${options.join(', ')}, got ${JSON.stringify(value)}`);
+    return value as T;
+  };
+
+  const noUnknownKeys = (obj: Json, allowed: readonly string[], path: string) => {
+    Object.keys(obj).forEach(key => {
+      if (!allowed.includes(key)) fail(`${path}.${key}`, `is not a known field (expected one of ${allowed.join(', ')})`);
+    });
+  };
+
+  return { fail, object, number, oneOf, noUnknownKeys };
+}
+
+export function parseWaveScript(data: unknown, source: string): WaveScript {
+  const v = validator(source);
+  const root = v.object(data, 'script');
+  v.noUnknownKeys(root, ['name', 'difficulty', 'waves', 'escalation'], 'script');
+
+  if (typeof root.name !== 'string' || root.name.length === 0) v.fail('name', 'must be a non-empty string');
+  const difficulty = v.oneOf(root.difficulty, DIFFICULTIES, 'difficulty');
+
+  if (!Array.isArray(root.waves) || root.waves.length === 0) v.fail('waves', 'must be a non-empty array');
+  const waves = (root.waves as unknown[]).map((raw, i): WaveDefinition => {
+    const path = `waves[${i}]`;
+    const wave = v.object(raw, path);
+    v.noUnknownKeys(wave, ['enemies', 'mix', 'spawnIntervalMs', 'speedMultiplier', 'targets', 'bursts'], path);
+
+    const mixRaw = v.object(wave.mix, `${path}.mix`);
+    const mix: Partial<Record<SpawnKind, number>> = {};
+    Object.entries(mixRaw).forEach(([kind, weight]) => {
+      mix[v.oneOf(kind, SPAWN_KINDS, `${path}.mix key`)] = v.number(weight, `${path}.mix.${kind}`, { min: 0 });
+    });
+    if (!Object.values(mix).some(weight => weight > 0)) v.fail(`${path}.mix`, 'needs at least one kind with weight > 0');
+
+    const targetsRaw = wave.targets === undefined ? { city: 1, turret: 1 } : v.object(wave.targets, `${path}.targets`);
+    v.noUnknownKeys(targetsRaw, TARGET_KINDS, `${path}.targets`);
+    const targets = {
+      city: v.number(targetsRaw.city ?? 0, `${path}.targets.city`, { min: 0 }),
+      turret: v.number(targetsRaw.turret ?? 0, `${path}.targets.turret`, { min: 0 }),
+    };
+    if (targets.city + targets.turret === 0) v.fail(`${path}.targets`, 'needs a weight > 0 for city or turret');
+
+    const burstsRaw = wave.bursts ?? [];
+    if (!Array.isArray(burstsRaw)) v.fail(`${path}.bursts`, 'must be an array');
+    const bursts = (burstsRaw as unknown[]).map((rawBurst, j): WaveBurst => {
+      const burstPath = `${path}.bursts[${j}]`;
+      const burst = v.object(rawBurst, burstPath);
+      v.noUnknownKeys(burst, ['atMs', 'count', 'kind'], burstPath);
+      return {
+        atMs: v.number(burst.atMs, `${burstPath}.atMs`, { min: 0 }),
+        count: v.number(burst.count, `${burstPath}.count`, { min: 1, integer: true }),
+        kind: v.oneOf(burst.kind, SPAWN_KINDS, `${burstPath}.kind`),
+      };
+    });
+
+    return {
+      enemies: v.number(wave.enemies, `${path}.enemies`, { min: 0, integer: true }),
+      mix,
+      spawnIntervalMs: v.number(wave.spawnIntervalMs, `${path}.spawnIntervalMs`, { min: 16 }),
+      speedMultiplier: wave.speedMultiplier === undefined ? 1 : v.number(wave.speedMultiplier, `${path}.speedMultiplier`, { min: 0.01 }),
+      targets,
+      bursts: bursts.sort((a, b) => a.atMs - b.atMs),
+    };
+  });
+
+  const esc = v.object(root.escalation, 'escalation');
+  v.noUnknownKeys(esc, ['enemies', 'spawnIntervalMs', 'minSpawnIntervalMs', 'speedMultiplier'], 'escalation');
+  const escalation: WaveEscalation = {
+    enemies: v.number(esc.enemies, 'escalation.enemies', { min: 0, integer: true }),
+    spawnIntervalMs: v.number(esc.spawnIntervalMs, 'escalation.spawnIntervalMs'),
+    minSpawnIntervalMs: v.number(esc.minSpawnIntervalMs, 'escalation.minSpawnIntervalMs', { min: 16 }),
+    speedMultiplier: v.number(esc.speedMultiplier ?? 0, 'escalation.speedMultiplier'),
+  };
+
+  return { name: root.name as string, difficulty, waves, escalation };
+}
+
+// --- Bundled scripts ---
+
+export const WAVE_SCRIPTS: Record<Difficulty, WaveScript> = {
+  EASY: parseWaveScript(easyScript, 'waves/easy.json'),
+  NORMAL: parseWaveScript(normalScript, 'waves/normal.json'),
+  HARD: parseWaveScript(hardScript, 'waves/hard.json'),
+};
+
+// Stress test: thousands of enemies per wave, the same for every difficulty
+export const SWARM_SCRIPT = parseWaveScript(swarmScript, 'waves/swarm.json');
+
+// Resolves the definition for a 1-based wave number, extrapolating past the end of the script
+export function planWave(script: WaveScript, wave: number): WaveDefinition {
+  const index = wave - 1;
+  if (index < script.waves.length) return script.waves[index];
+
+  const last = script.waves[script.waves.length - 1];
+  const extra = index - (script.waves.length - 1);
+  const { escalation } = script;
+  return {
+    ...last,
+    enemies: last.enemies + escalation.enemies * extra,
+    spawnIntervalMs: Math.max(escalation.minSpawnIntervalMs, last.spawnIntervalMs + escalation.spawnIntervalMs * extra),
+    speedMultiplier: Math.max(0.01, last.speedMultiplier + escalation.speedMultiplier * extra),
+    // Bursts are authored for a specific wave and are not repeated
+    bursts: [],
+  };
+}
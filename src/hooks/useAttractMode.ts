@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, type RefObject } from 'react';
+import { Autopilot } from '../game/autopilot';
+import { FIXED_STEP_MS, MAX_FRAME_MS } from '../game/constants';
+import type { Renderer } from '../game/renderer';
+import { randomSeed } from '../game/rng';
+import { GameSimulation } from '../game/simulation';
+
+// How long a finished demo game stays on screen before the next one starts
+const RESTART_DELAY_MS = 3000;
+
+/**
+ * While `active`, plays autopilot games onto the shared canvas as a demo
+ * behind the start screen, starting a new one whenever a game ends.
+ * Nothing is recorded, saved or played through the speakers.
+ */
+export function useAttractMode(rendererRef: RefObject<Renderer | null>, active: boolean) {
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!active || !renderer) return;
+
+    const newGame = () => GameSimulation.create({ seed: randomSeed(), difficulty: 'NORMAL', mode: 'classic' });
+    let sim = newGame();
+    const bot = new Autopilot();
+    let accumulator = 0;
+    let overFor = 0;
+    let lastTime = performance.now();
+    renderer.clearPopups();
+
+    const loop = (time: number) => {
+      const dt = Math.min(time - lastTime, MAX_FRAME_MS);
+      lastTime = time;
+
+      if (sim.isOver) {
+        overFor += dt;
+        if (overFor >= RESTART_DELAY_MS) {
+          sim = newGame();
+          overFor = 0;
+          renderer.clearPopups();
+        }
+      } else {
+        accumulator += dt;
+        while (accumulator >= FIXED_STEP_MS && !sim.isOver) {
+          for (const command of bot.decide(sim.state)) sim.dispatch(command);
+          renderer.addPopups(sim.step(), time);
+          accumulator -= FIXED_STEP_MS;
+        }
+      }
+      renderer.render(sim.state, time);
+      frameId = requestAnimationFrame(loop);
+    };
+
+    let frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [rendererRef, active]);
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { PAD_BUTTONS, readStick, type PadButton, type Stick } from '../input/gamepad';
+
+const BUTTON_NAMES = Object.keys(PAD_BUTTONS) as PadButton[];
+
+/**
+ * Polls the first connected gamepad every animation frame. `onPress` fires
+ * once per button press (not while held); the latest left stick position is
+ * kept in `stickRef` for the game loop to read.
+ */
+export function useGamepad(onPress: (button: PadButton) => void) {
+  const [padId, setPadId] = useState<string | null>(null);
+  const stickRef = useRef<Stick>({ x: 0, y: 0 });
+  const padRef = useRef<Gamepad | null>(null);
+  const onPressRef = useRef(onPress);
+
+  useEffect(() => {
+    onPressRef.current = onPress;
+  });
+
+  useEffect(() => {
+    if (!('getGamepads' in navigator)) return;
+    const wasPressed = new Set<PadButton>();
+
+    const poll = () => {
+      const pad = navigator.getGamepads().find((p): p is Gamepad => p !== null && p.connected) ?? null;
+      padRef.current = pad;
+      setPadId(pad ? pad.id : null);
+
+      if (pad) {
+        stickRef.current = readStick(pad);
+        BUTTON_NAMES.forEach(name => {
+          const pressed = pad.buttons[PAD_BUTTONS[name]]?.pressed ?? false;
+          if (pressed && !wasPressed.has(name)) onPressRef.current(name);
+          if (pressed) wasPressed.add(name);
+          else wasPressed.delete(name);
+        });
+      } else {
+        stickRef.current = { x: 0, y: 0 };
+        wasPressed.clear();
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+
+    let frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return { padId, connected: padId !== null, stickRef, padRef };
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import en from './locales/en.json';
+import zh from './locales/zh.json';
+import ja from './locales/ja.json';
+import ko from './locales/ko.json';
+import es from './locales/es.json';
+
+// A message is either plain text or one text per plural category of the
+// language, chosen by the `count` parameter. `{name}` placeholders are
+// replaced by the parameter of the same name.
+export type PluralForms = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+export type Message = string | PluralForms;
+
+// English is the reference locale: every other locale must define all of its keys
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
+
+// `satisfies` makes the build fail when a locale file is missing a key
+export const LOCALES = {
+  zh: zh satisfies Messages,
+  en: en satisfies Messages,
+  ja: ja satisfies Messages,
+  ko: ko satisfies Messages,
+  es: es satisfies Messages,
+};
+
+export type Locale = keyof typeof LOCALES;
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+// Used when none of the browser's languages is available
+export const DEFAULT_LOCALE: Locale = 'zh';
+
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const LOCALE_KEY = 'nova-defense:locale';
+
+// An explicit choice wins; otherwise the first supported browser language
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (saved && isLocale(saved)) return saved;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const code = language.toLowerCase().split('-')[0];
+    if (isLocale(code)) return code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const messages: Messages = LOCALES[locale];
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+
+  return (key, params = {}) => {
+    const message = messages[key];
+    let text: string;
+    if (typeof message === 'string') {
+      text = message;
+    } else {
+      const count = Number(params.count ?? 0);
+      text = message[plurals.select(count)] ?? message.other;
+    }
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+}
+
+function isLocale(code: string): code is Locale {
+  return Object.hasOwn(LOCALES, code);
+}
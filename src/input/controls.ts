@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from '../game/constants';
+import type { SpecialWeapon, Turret } from '../game/types';
+
+// 'auto': click fires from the closest battery with ammo (the original behavior).
+// 'manual': batteries are fired by key at the crosshair, like Missile Command.
+export type FireControl = 'auto' | 'manual';
+
+export type ControlSettings = {
+  fireControl: FireControl;
+  // Draws a crosshair on the canvas that the arrow keys can move
+  keyboardCrosshair: boolean;
+};
+
+const SETTINGS_KEY = 'nova-defense:controls';
+
+export const DEFAULT_CONTROL_SETTINGS: ControlSettings = {
+  fireControl: 'auto',
+  keyboardCrosshair: false,
+};
+
+export function loadControlSettings(): ControlSettings {
+  try {
+    return { ...DEFAULT_CONTROL_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_CONTROL_SETTINGS;
+  }
+}
+
+export function saveControlSettings(settings: ControlSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// --- Battery keys ---
+
+export type BatteryGroup = 'left' | 'center' | 'right';
+
+const GROUP_PREFIXES: Record<BatteryGroup, string> = { left: 'L', center: 'C', right: 'R' };
+
+// Turrets are grouped by the first letter of their label (see labelTurrets): L*, C*, R*
+export function batteryGroup(turrets: Turret[], group: BatteryGroup): number[] {
+  return turrets.filter(t => t.label.startsWith(GROUP_PREFIXES[group])).map(t => t.id);
+}
+
+const GROUP_KEYS: Record<string, BatteryGroup> = { a: 'left', s: 'center', d: 'right' };
+
+// Keys 1..9 map to turret ids, which run left to right (L1, L2, C, R2, R1 by
+// default). Turrets past the ninth are only reachable through their group.
+export const TURRET_KEYS = Array.from({ length: 9 }, (_, i) => String(i + 1));
+
+// Returns the turret ids a key fires from, or null if the key is not a battery key
+export function batteryForKey(key: string, turrets: Turret[]): number[] | null {
+  const group = GROUP_KEYS[key.toLowerCase()];
+  if (group) return batteryGroup(turrets, group);
+  const index = TURRET_KEYS.indexOf(key);
+  return index === -1 || index >= turrets.length ? null : [turrets[index].id];
+}
+
+export const AUTO_FIRE_KEYS = [' ', 'Enter'];
+
+// Special weapons work the same with either fire control
+export const SPECIAL_KEYS: Record<SpecialWeapon, string> = { emp: 'q', slowMo: 'e' };
+
+export function specialForKey(key: string): SpecialWeapon | null {
+  const entry = Object.entries(SPECIAL_KEYS).find(([, bound]) => bound === key.toLowerCase());
+  return entry ? (entry[0] as SpecialWeapon) : null;
+}
+
+// --- Crosshair ---
+
+export type Crosshair = {
+  x: number;
+  y: number;
+  // Current keyboard speed in px/ms, reset when the arrow keys are released
+  speed: number;
+};
+
+const CROSSHAIR_MIN_SPEED = 0.15;
+const CROSSHAIR_MAX_SPEED = 0.9;
+const CROSSHAIR_ACCEL = 0.0015;
+
+export const ARROW_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'];
+
+export function createCrosshair(): Crosshair {
+  return { x: GAME_WIDTH / 2, y: GAME_HEIGHT / 2, speed: 0 };
+}
+
+export function clampCrosshair(crosshair: Crosshair) {
+  crosshair.x = Math.max(0, Math.min(GAME_WIDTH, crosshair.x));
+  crosshair.y = Math.max(0, Math.min(GAME_HEIGHT - 40, crosshair.y));
+}
+
+// Moves the crosshair for held arrow keys, accelerating the longer they are held
+export function moveCrosshair(crosshair: Crosshair, held: Set<string>, dtMs: number) {
+  const dx = (held.has('ArrowRight') ? 1 : 0) - (held.has('ArrowLeft') ? 1 : 0);
+  const dy = (held.has('ArrowDown') ? 1 : 0) - (held.has('ArrowUp') ? 1 : 0);
+  if (dx === 0 && dy === 0) {
+    crosshair.speed = 0;
+    return;
+  }
+
+  crosshair.speed = Math.min(CROSSHAIR_MAX_SPEED, Math.max(CROSSHAIR_MIN_SPEED, crosshair.speed + CROSSHAIR_ACCEL * dtMs));
+  const norm = dx !== 0 && dy !== 0 ? Math.SQRT1_2 : 1;
+  crosshair.x += dx * norm * crosshair.speed * dtMs;
+  crosshair.y += dy * norm * crosshair.speed * dtMs;
+  clampCrosshair(crosshair);
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { clampCrosshair, type BatteryGroup, type Crosshair } from './controls';
+import type { SpecialWeapon } from '../game/types';
+
+// Button indices of the W3C "standard" gamepad mapping
+export const PAD_BUTTONS = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  BACK: 8,
+  START: 9,
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15,
+} as const;
+
+export type PadButton = keyof typeof PAD_BUTTONS;
+
+export const PAD_BATTERY_BUTTONS: Partial<Record<PadButton, BatteryGroup>> = {
+  LT: 'left',
+  X: 'left',
+  A: 'center',
+  RT: 'right',
+  B: 'right',
+};
+
+export const PAD_SPECIAL_BUTTONS: Partial<Record<PadButton, SpecialWeapon>> = {
+  LB: 'emp',
+  RB: 'slowMo',
+};
+
+const STICK_DEADZONE = 0.15;
+// Crosshair speed in px/ms at full stick deflection
+const STICK_MAX_SPEED = 0.8;
+
+export type Stick = { x: number; y: number };
+
+// Rescales the stick so the deadzone edge reads as 0 and full tilt as 1
+export function readStick(pad: Gamepad): Stick {
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < STICK_DEADZONE) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+  return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+}
+
+// Squared response curve: small tilts for fine aim, full tilt to cross the field quickly
+export function moveCrosshairWithStick(crosshair: Crosshair, stick: Stick, dtMs: number) {
+  const magnitude = Math.hypot(stick.x, stick.y);
+  if (magnitude === 0) return;
+  const speed = magnitude * magnitude * STICK_MAX_SPEED;
+  crosshair.x += (stick.x / magnitude) * speed * dtMs;
+  crosshair.y += (stick.y / magnitude) * speed * dtMs;
+  clampCrosshair(crosshair);
+}
+
+export function rumble(pad: Gamepad | null, strong: number, weak: number, durationMs: number) {
+  pad?.vibrationActuator?.playEffect('dual-rumble', {
+    duration: durationMs,
+    strongMagnitude: strong,
+    weakMagnitude: weak,
+  }).catch(() => {
+    // Not every browser/controller supports rumble; missing it is fine
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ACHIEVEMENTS, type AchievementId, type AchievementProgress } from '../game/achievements';
+
+const ACHIEVEMENTS_KEY = 'nova-defense:achievements';
+
+export type AchievementRecord = {
+  progress: number;
+  // ISO timestamp of the unlock, or null while locked
+  unlockedAt: string | null;
+};
+
+export type AchievementRecords = Record<AchievementId, AchievementRecord>;
+
+export function loadAchievements(): AchievementRecords {
+  let saved: Partial<AchievementRecords> = {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ACHIEVEMENTS_KEY) ?? '{}');
+    if (typeof parsed === 'object' && parsed !== null) saved = parsed;
+  } catch {
+    // Start over rather than fail on a corrupted entry
+  }
+  // Achievements added since the last save start locked
+  return Object.fromEntries(
+    ACHIEVEMENTS.map(({ id }) => [id, { progress: 0, unlockedAt: null, ...saved[id] }]),
+  ) as AchievementRecords;
+}
+
+// Raises the stored progress to `progress` where it is higher. Returns the newly unlocked achievements.
+export function recordAchievementProgress(progress: AchievementProgress): AchievementId[] {
+  const records = loadAchievements();
+  const unlocked: AchievementId[] = [];
+  let changed = false;
+  for (const { id, target } of ACHIEVEMENTS) {
+    const value = progress[id];
+    const record = records[id];
+    if (value === undefined || value <= record.progress) continue;
+    record.progress = Math.min(value, target);
+    changed = true;
+    if (record.unlockedAt === null && value >= target) {
+      record.unlockedAt = new Date().toISOString();
+      unlocked.push(id);
+    }
+  }
+  if (changed) localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(records));
+  return unlocked;
+}
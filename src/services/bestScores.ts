@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Difficulty, GameMode } from '../game/types';
+
+const BEST_KEY = 'nova-defense:best-scores';
+
+// Keyed by `${mode}:${difficulty}`; adaptive runs use 'ADAPTIVE' as the difficulty
+export type BestScores = Record<string, number>;
+
+export function bestScoreKey(mode: GameMode, difficulty: Difficulty, adaptive: boolean): string {
+  return `${mode}:${adaptive ? 'ADAPTIVE' : difficulty}`;
+}
+
+export function loadBestScores(): BestScores {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BEST_KEY) ?? '{}');
+    return typeof saved === 'object' && saved !== null ? saved as BestScores : {};
+  } catch {
+    return {};
+  }
+}
+
+// Stores `score` if it beats the previous best for `key`. Returns true when it did.
+export function recordBestScore(key: string, score: number): boolean {
+  const scores = loadBestScores();
+  if (score <= (scores[key] ?? 0)) return false;
+  scores[key] = score;
+  localStorage.setItem(BEST_KEY, JSON.stringify(scores));
+  return true;
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LayoutFormatError, parseLayout, serializeLayout, validateLayout, type Layout } from '../game/layout';
+
+const LAYOUT_KEY = 'nova-defense:layout';
+
+// The editor layout new games are played on, or null for the built-in one.
+// A stored layout that no longer parses or validates is dropped.
+export function loadLayout(): Layout | null {
+  const saved = localStorage.getItem(LAYOUT_KEY);
+  if (!saved) return null;
+  try {
+    const layout = parseLayout(saved);
+    return validateLayout(layout).length === 0 ? layout : null;
+  } catch (err) {
+    if (!(err instanceof LayoutFormatError)) throw err;
+    return null;
+  }
+}
+
+export function saveLayout(layout: Layout | null) {
+  if (layout) localStorage.setItem(LAYOUT_KEY, serializeLayout(layout));
+  else localStorage.removeItem(LAYOUT_KEY);
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Difficulty } from '../game/types';
+
+export const MAX_NAME_LENGTH = 16;
+
+const API_URL = '/api/scores';
+const LOCAL_KEY = 'nova-defense:leaderboard';
+const NAME_KEY = 'nova-defense:player-name';
+const REQUEST_TIMEOUT_MS = 3000;
+
+export type ScoreSubmission = {
+  name: string;
+  difficulty: Difficulty;
+  score: number;
+  wave: number;
+  durationMs: number;
+};
+
+// What is sent to the server. `clientId` is generated once per score, so a retried
+// upload the server already stored is not counted twice; null from older clients.
+export type ScoreUpload = ScoreSubmission & { clientId: string | null };
+
+export type LeaderboardEntry = ScoreSubmission & {
+  id: number;
+  rank: number;
+  createdAt: string;
+};
+
+export type LeaderboardScope = 'all' | 'today';
+
+// `offline` is true when the server could not be reached and local scores were used instead
+export type LeaderboardResult = { entries: LeaderboardEntry[]; offline: boolean };
+export type SubmitResult = { rank: number; offline: boolean };
+
+// `synced` is also set for scores the server rejected, which are never sent again.
+// Scores stored before ids existed get theirs when they are next uploaded.
+type LocalScore = ScoreSubmission & { clientId?: string; createdAt: string; synced: boolean };
+
+// The server answered but refused the request; retrying it would fail the same way
+class RejectedError extends Error {}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function request(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (response.status >= 400 && response.status < 500) {
+    throw new RejectedError(`Leaderboard rejected the request with ${response.status}`);
+  }
+  if (!response.ok) throw new Error(`Leaderboard request failed with ${response.status}`);
+  return response;
+}
+
+function readLocalScores(): LocalScore[] {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_KEY) ?? '[]') as LocalScore[];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalScores(scores: LocalScore[]) {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(scores));
+}
+
+function rankLocal(difficulty: Difficulty, scope: LeaderboardScope, limit: number): LeaderboardEntry[] {
+  const day = today();
+  return readLocalScores()
+    .filter(s => s.difficulty === difficulty && (scope === 'all' || s.createdAt.startsWith(day)))
+    .sort((a, b) => b.score - a.score || a.createdAt.localeCompare(b.createdAt))
+    .slice(0, limit)
+    .map((s, i) => ({ ...s, id: -(i + 1), rank: i + 1 }));
+}
+
+async function postScore(upload: ScoreUpload): Promise<number> {
+  const response = await request(API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(upload),
+  });
+  const { rank } = (await response.json()) as { rank: number };
+  return rank;
+}
+
+// Scores saved while offline are uploaded the next time the server answers.
+// Stops at the first network failure; a rejected score is given up on.
+async function syncPendingScores() {
+  const scores = readLocalScores();
+  for (const score of scores) {
+    if (score.synced) continue;
+    score.clientId ??= crypto.randomUUID();
+    writeLocalScores(scores);
+    const { createdAt: _createdAt, synced: _synced, clientId, ...submission } = score;
+    try {
+      await postScore({ ...submission, clientId });
+    } catch (err) {
+      if (!(err instanceof RejectedError)) throw err;
+    }
+    score.synced = true;
+    writeLocalScores(scores);
+  }
+}
+
+function localRank(scores: LocalScore[], submission: ScoreSubmission): number {
+  return 1 + scores.filter(s => s.difficulty === submission.difficulty && s.score > submission.score).length;
+}
+
+export async function submitScore(submission: ScoreSubmission): Promise<SubmitResult> {
+  const clientId = crypto.randomUUID();
+  const local: LocalScore = { ...submission, clientId, createdAt: new Date().toISOString(), synced: false };
+  try {
+    await syncPendingScores();
+    const rank = await postScore({ ...submission, clientId });
+    writeLocalScores([...readLocalScores(), { ...local, synced: true }]);
+    return { rank, offline: false };
+  } catch (err) {
+    // Kept locally either way; only scores that never reached the server are retried
+    const scores = readLocalScores();
+    writeLocalScores([...scores, { ...local, synced: err instanceof RejectedError }]);
+    return { rank: localRank(scores, submission), offline: true };
+  }
+}
+
+export async function fetchLeaderboard(
+  difficulty: Difficulty,
+  scope: LeaderboardScope,
+  limit = 10,
+): Promise<LeaderboardResult> {
+  const params = new URLSearchParams({ difficulty, limit: String(limit) });
+  if (scope === 'today') params.set('date', today());
+  try {
+    const response = await request(`${API_URL}?${params}`);
+    return { entries: (await response.json()) as LeaderboardEntry[], offline: false };
+  } catch {
+    return { entries: rankLocal(difficulty, scope, limit), offline: true };
+  }
+}
+
+export function loadPlayerName(): string {
+  return localStorage.getItem(NAME_KEY) ?? '';
+}
+
+export function savePlayerName(name: string) {
+  localStorage.setItem(NAME_KEY, name);
+}
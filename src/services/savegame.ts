@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_LAYOUT } from '../game/layout';
+import type { ReplayInput } from '../game/replay';
+import { createStats } from '../game/stats';
+import { FIRST_SUPPLY_DROP_MS, createSpecials } from '../game/supplies';
+import type { SimulationState } from '../game/types';
+
+const SAVE_KEY = 'nova-defense:save';
+
+type Json = Record<string, unknown>;
+
+// Append-only: entry n upgrades a version n + 1 snapshot's `state` to version
+// n + 2. Never edit a migration that has shipped, add a new one instead.
+const MIGRATIONS: ((state: Json) => Json)[] = [
+  // v2: game modes
+  state => ({ ...state, mode: 'classic' }),
+  // v3: adaptive difficulty
+  state => ({ ...state, director: null }),
+  // v4: timed modes; only time attack reads the play time and older saves cannot be time attack runs
+  state => ({ ...state, playTimeMs: 0 }),
+  // v5: game stats, which start counting from the wave the save was made in. Missiles in
+  // flight get their turret back from the launch position; explosions start their own chain.
+  state => {
+    const turrets = state.turrets as Json[];
+    const stats = createStats(turrets.length);
+    stats.waves[0].wave = state.wave as number;
+    return {
+      ...state,
+      stats,
+      missiles: (state.missiles as Json[]).map(m => ({ ...m, turretId: turrets.find(t => t.x === m.startX)?.id ?? 0 })),
+      explosions: (state.explosions as Json[]).map(e => ({ ...e, turretId: null, chainRoot: e.id })),
+    };
+  },
+  // v6: chain kill counts moved from the stats to the simulation
+  ({ stats, ...state }) => {
+    const { chains, ...rest } = stats as Json;
+    return { ...state, stats: rest, chains: chains ?? {} };
+  },
+  // v7: turret archetypes; saved runs keep the original interceptors and their ammo
+  state => ({
+    ...state,
+    turrets: (state.turrets as Json[]).map(t => ({ ...t, archetype: 'standard', cooldownMs: 0 })),
+  }),
+  // v8: editor layouts; older runs were all played on the built-in flat ground
+  state => ({ ...state, layout: null, ground: [...DEFAULT_LAYOUT.ground] }),
+  // v9: supply drops and special weapons; saved runs wait for their first crate like a new game
+  state => ({
+    ...state,
+    crates: [],
+    supplyTimer: FIRST_SUPPLY_DROP_MS,
+    shieldMs: 0,
+    slowMoMs: 0,
+    specials: createSpecials(),
+  }),
+  // v10: curved paths and wind; everything in flight was flying straight, and the wave started calm
+  state => ({
+    ...state,
+    rockets: (state.rockets as Json[]).map(r => ({ ...r, path: 'straight', curve: 0, cycles: 0, driftX: 0 })),
+    missiles: (state.missiles as Json[]).map(m => ({ ...m, path: 'straight', curve: 0, cycles: 0 })),
+    wind: { x: 0, y: 0 },
+  }),
+];
+
+export const SAVE_VERSION = MIGRATIONS.length + 1;
+
+export type SaveGame = {
+  version: number;
+  savedAt: string;
+  state: SimulationState;
+  // Commands recorded so far, so the finished game still has a full replay.
+  // Null once the run has been migrated: older commands replay differently under
+  // the current rules, so such a run ends without a replay.
+  inputs: ReplayInput[] | null;
+  // Slowest game speed the run has been played at so far
+  gameSpeed: number;
+};
+
+export function writeSave(state: SimulationState, inputs: ReplayInput[] | null, gameSpeed: number) {
+  const save: SaveGame = { version: SAVE_VERSION, savedAt: new Date().toISOString(), state, inputs, gameSpeed };
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Storage full or unavailable: the run simply cannot be resumed
+  }
+}
+
+export function clearSave() {
+  localStorage.removeItem(SAVE_KEY);
+}
+
+// Brings a parsed snapshot up to SAVE_VERSION. Returns null for snapshots
+// that are damaged or written by a newer version of the game.
+export function migrateSave(data: unknown): SaveGame | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const save = data as Json;
+  if (typeof save.version !== 'number' || save.version < 1 || save.version > SAVE_VERSION) return null;
+  if (typeof save.state !== 'object' || save.state === null) return null;
+  if (!Array.isArray(save.inputs) && save.inputs !== null) return null;
+
+  let state = save.state as Json;
+  try {
+    for (let version = save.version; version < SAVE_VERSION; version++) {
+      state = MIGRATIONS[version - 1](state);
+    }
+  } catch {
+    // A migration tripped over missing fields
+    return null;
+  }
+
+  const looksValid = typeof state.tick === 'number'
+    && typeof state.seed === 'number'
+    && state.status === 'PLAYING'
+    && Array.isArray(state.turrets)
+    && Array.isArray(state.cities)
+    && Array.isArray(state.rockets);
+  if (!looksValid) return null;
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof save.savedAt === 'string' ? save.savedAt : '',
+    state: state as SimulationState,
+    inputs: save.version === SAVE_VERSION ? (save.inputs as ReplayInput[] | null) : null,
+    gameSpeed: typeof save.gameSpeed === 'number' ? save.gameSpeed : 1,
+  };
+}
+
+// Unreadable saves are removed so the Continue button does not keep offering them
+export function loadSave(): SaveGame | null {
+  const raw = localStorage.getItem(SAVE_KEY);
+  if (raw === null) return null;
+  let save: SaveGame | null = null;
+  try {
+    save = migrateSave(JSON.parse(raw));
+  } catch {
+    // Corrupt JSON
+  }
+  if (!save) clearSave();
+  return save;
+}
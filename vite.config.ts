@@ -26,6 +26,10 @@ export default defineConfig(({ mode }) => {
     server: {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // Leaderboard API (`npm run server`)
+      proxy: {
+        '/api': `http://localhost:${env.LEADERBOARD_PORT || 8787}`,
+      },
     },
   };
 });